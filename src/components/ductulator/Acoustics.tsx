@@ -0,0 +1,171 @@
+"use client";
+
+import React, { useState } from "react";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectTrigger,
+  SelectValue,
+  SelectContent,
+  SelectItem,
+} from "@/components/ui/select";
+import { cn } from "@/lib/utils";
+import {
+  OCTAVE_BANDS,
+  ROOM_TYPES,
+  checkNoise,
+  fittingSoundPower,
+  formatQuantity,
+  safeNum,
+  straightDuctSoundPower,
+  type DuctSection,
+  type NoiseMetric,
+  type NoiseSource,
+  type SectionCalc,
+  type UnitPrefs,
+} from "@/lib/ductulator";
+
+const bandLabel = (f: number) => (f >= 1000 ? `${f / 1000}k` : String(f));
+const dB = (v: number) => (Number.isFinite(v) ? v.toFixed(0) : "—");
+
+/**
+ * Flow-generated noise of the duct and its fittings, as sound pressure in the
+ * served room against the room's NC/NR target.
+ */
+export default function Acoustics({
+  section,
+  calc,
+  fittings,
+  units,
+}: {
+  section: DuctSection;
+  calc: SectionCalc;
+  fittings: { label: string; k: number; quantity: number }[];
+  units: UnitPrefs;
+}) {
+  const [roomType, setRoomType] = useState<string>("Private office");
+  const [metric, setMetric] = useState<NoiseMetric>(ROOM_TYPES["Private office"].metric);
+  const [bufLevel, setBufLevel] = useState<string>(String(ROOM_TYPES["Private office"].level));
+
+  const changeRoomType = (name: string) => {
+    setRoomType(name);
+    setMetric(ROOM_TYPES[name].metric);
+    setBufLevel(String(ROOM_TYPES[name].level));
+  };
+
+  const room = { ...ROOM_TYPES[roomType], metric, level: safeNum(bufLevel, ROOM_TYPES[roomType].level) };
+  const sources: NoiseSource[] = [
+    { label: "Straight duct", lw: straightDuctSoundPower(section, calc.V) },
+    ...fittings
+      .filter((f) => f.k > 0 && f.quantity > 0)
+      .map((f) => ({
+        label: f.quantity > 1 ? `${f.label} ×${f.quantity}` : f.label,
+        lw: fittingSoundPower(section, calc.V, f.k, calc.rho).map((L) => L + 10 * Math.log10(f.quantity)),
+      })),
+  ];
+  const check = checkNoise(sources, room);
+
+  return (
+    <div className="mt-3 border-t pt-3">
+      <div className="mb-2 flex flex-wrap items-end gap-2">
+        <div className="text-sm font-medium">Flow noise</div>
+        <div className="ml-auto">
+          <Label className="mb-1 block text-xs">Room type</Label>
+          <Select value={roomType} onValueChange={changeRoomType}>
+            <SelectTrigger className="w-[170px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.keys(ROOM_TYPES).map((name) => (
+                <SelectItem key={name} value={name}>
+                  {name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div>
+          <Label className="mb-1 block text-xs">Target</Label>
+          <div className="flex gap-1">
+            <Select value={metric} onValueChange={(v: NoiseMetric) => setMetric(v)}>
+              <SelectTrigger className="w-[75px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="NC">NC</SelectItem>
+                <SelectItem value="NR">NR</SelectItem>
+              </SelectContent>
+            </Select>
+            <Input className="w-[60px]" value={bufLevel} onChange={(e) => setBufLevel(e.target.value)} />
+          </div>
+        </div>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-xs">
+          <thead>
+            <tr className="text-left text-slate-500">
+              <th className="py-1 font-normal">Lp in room, dB</th>
+              {OCTAVE_BANDS.map((f) => (
+                <th key={f} className="py-1 text-right font-normal">
+                  {bandLabel(f)}
+                </th>
+              ))}
+              <th className="py-1 text-right font-normal">{metric}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {check.sources.map((s, n) => (
+              <tr key={n} className="border-t">
+                <td className="py-1">{s.label}</td>
+                {s.lp.map((L, i) => (
+                  <td key={i} className={cn("py-1 text-right", L > check.criterion[i] && "text-red-700")}>
+                    {dB(L)}
+                  </td>
+                ))}
+                <td className="py-1 text-right">{dB(s.rating)}</td>
+              </tr>
+            ))}
+            <tr className="border-t font-medium">
+              <td className="py-1">Total</td>
+              {check.lp.map((L, i) => (
+                <td key={i} className={cn("py-1 text-right", L > check.criterion[i] && "text-red-700")}>
+                  {dB(L)}
+                </td>
+              ))}
+              <td className="py-1 text-right">{dB(check.rating)}</td>
+            </tr>
+            <tr className="border-t text-slate-500">
+              <td className="py-1">
+                {metric} {room.level} limit
+              </td>
+              {check.criterion.map((L, i) => (
+                <td key={i} className="py-1 text-right">
+                  {dB(L)}
+                </td>
+              ))}
+              <td />
+            </tr>
+          </tbody>
+        </table>
+      </div>
+
+      <div className="mt-2 flex items-center gap-2 text-xs">
+        <Badge variant={check.exceeds ? "destructive" : "secondary"}>
+          {check.exceeds ? "Too noisy" : "Within target"}
+        </Badge>
+        <span className="text-slate-500">
+          Listener {formatQuantity("distance", room.distance_m, units.distance, 1)} from the outlet in a
+          typical {roomType.toLowerCase()}; no duct attenuation assumed.
+        </span>
+      </div>
+      {check.warnings.map((w, i) => (
+        <div key={i} className="mt-2 rounded border-l-4 border-amber-400 bg-amber-50 p-2 text-xs text-amber-800">
+          {w}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,166 @@
+"use client";
+
+import React, { useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { downloadText } from "@/components/ductulator/csv";
+import {
+  airProfileError,
+  airProfilesToJSON,
+  formatQuantity,
+  parseAirProfiles,
+  type AirProfile,
+  type AirProfileLibrary,
+  type UnitPrefs,
+} from "@/lib/ductulator";
+
+/**
+ * The user's own design air profiles. A profile is saved from the air
+ * conditions currently entered above; saving under an existing name replaces it.
+ */
+export default function AirProfiles({
+  library,
+  onChange,
+  current,
+  selected,
+  onSelect,
+  units,
+}: {
+  library: AirProfileLibrary;
+  onChange: (next: AirProfileLibrary) => void;
+  current: AirProfile;
+  selected: string;
+  onSelect: (name: string) => void;
+  units: UnitPrefs;
+}) {
+  const [name, setName] = useState(() => (Object.hasOwn(library, selected) ? selected : ""));
+  const [messages, setMessages] = useState<string[]>([]);
+  const fileRef = useRef<HTMLInputElement | null>(null);
+
+  const saveCurrent = () => {
+    const key = name.trim();
+    const error = airProfileError(key, current);
+    if (error) {
+      setMessages([error]);
+      return;
+    }
+    onChange({ ...library, [key]: current });
+    onSelect(key);
+    setMessages([`Saved ${key}.`]);
+  };
+
+  const removeProfile = (key: string) => {
+    const next = { ...library };
+    delete next[key];
+    onChange(next);
+  };
+
+  // Imported profiles replace ones with the same name; the rest are kept
+  const importFile = async (file: File) => {
+    const { profiles, errors } = parseAirProfiles(await file.text());
+    const count = Object.keys(profiles).length;
+    if (count) onChange({ ...library, ...profiles });
+    setMessages([`Imported ${count} profile(s) from ${file.name}.`, ...errors]);
+  };
+
+  const site = (p: AirProfile) =>
+    p.pressure != null
+      ? formatQuantity("barometric", p.pressure, units.barometric)
+      : formatQuantity("distance", p.altitude, units.distance, 0);
+
+  return (
+    <div className="mb-3 rounded border p-3 text-sm">
+      <div className="mb-2 flex flex-wrap items-center gap-2">
+        <span className="font-medium">My air profiles</span>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="ml-auto"
+          onClick={() => downloadText("ductulator-air-profiles.json", airProfilesToJSON(library), "application/json")}
+        >
+          Export JSON
+        </Button>
+        <Button variant="ghost" size="sm" onClick={() => fileRef.current?.click()}>
+          Import JSON
+        </Button>
+        <input
+          ref={fileRef}
+          type="file"
+          accept="application/json,.json"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) void importFile(file);
+            e.target.value = "";
+          }}
+        />
+      </div>
+
+      {Object.keys(library).length ? (
+        <table className="mb-2 w-full">
+          <thead>
+            <tr className="text-left text-slate-500">
+              <th className="py-1 font-normal">Profile</th>
+              <th className="py-1 text-right font-normal">Temperature</th>
+              <th className="py-1 text-right font-normal">RH</th>
+              <th className="py-1 text-right font-normal">Site</th>
+              <th className="py-1" />
+            </tr>
+          </thead>
+          <tbody>
+            {Object.entries(library).map(([key, p]) => (
+              <tr key={key} className="border-t">
+                <td className="py-1">
+                  <button
+                    type="button"
+                    className="text-left underline-offset-2 hover:underline"
+                    onClick={() => {
+                      onSelect(key);
+                      setName(key);
+                    }}
+                  >
+                    {key}
+                  </button>
+                </td>
+                <td className="py-1 text-right">{formatQuantity("temperature", p.T, units.temperature)}</td>
+                <td className="py-1 text-right">{p.RH} %</td>
+                <td className="py-1 text-right">{site(p)}</td>
+                <td className="py-1 text-right">
+                  <Button variant="ghost" size="sm" onClick={() => removeProfile(key)}>
+                    Remove
+                  </Button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      ) : (
+        <div className="mb-2 text-xs text-slate-500">No profiles of your own yet.</div>
+      )}
+
+      <div className="flex flex-wrap items-end gap-2">
+        <div>
+          <Label className="mb-1 block text-xs">Name</Label>
+          <Input
+            className="w-[240px]"
+            placeholder="e.g. Winter supply 14°C / 30%"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+          />
+        </div>
+        <Button variant="secondary" onClick={saveCurrent}>
+          {Object.hasOwn(library, name.trim()) ? "Update with current air" : "Save current air"}
+        </Button>
+        <span className="pb-2 text-xs text-slate-500">
+          {formatQuantity("temperature", current.T, units.temperature)}, {current.RH} % RH, {site(current)}
+        </span>
+      </div>
+      {messages.map((m, i) => (
+        <div key={i} className="mt-2 text-xs text-slate-600">
+          {m}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,275 @@
+"use client";
+
+import React, { useMemo, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectTrigger,
+  SelectValue,
+  SelectContent,
+  SelectItem,
+} from "@/components/ui/select";
+import { cn } from "@/lib/utils";
+import { exportCSV } from "@/components/ductulator/csv";
+import { sectionLabel } from "@/components/ductulator/SectionRuleFields";
+import {
+  BATCH_FIELDS,
+  MODE_LABELS,
+  formatQuantity,
+  fromSI,
+  guessColumns,
+  parseCSV,
+  resultFlow_m3s,
+  runBatch,
+  type BatchField,
+  type BatchRow,
+  type ColumnMap,
+  type DuctConditions,
+  type MaterialLibrary,
+  type Mode,
+  type UnitPrefs,
+} from "@/lib/ductulator";
+
+const NONE = "__none__";
+
+const sig = (v: number) => (Number.isFinite(v) ? +v.toPrecision(4) : "");
+
+/**
+ * A whole duct schedule from CSV: columns are mapped to the duct inputs, every
+ * row is solved like a single calculation, and the completed schedule is
+ * exported with its results and warnings.
+ */
+export default function BatchSchedule({
+  conditions,
+  library,
+  units,
+}: {
+  conditions: DuctConditions; // used where a row leaves the air or material blank
+  library: MaterialLibrary;
+  units: UnitPrefs;
+}) {
+  const [file, setFile] = useState<{ name: string; rows: string[][] } | null>(null);
+  const [map, setMap] = useState<ColumnMap | null>(null);
+  const [mode, setMode] = useState<Mode>("pressureDrop");
+  const [flaggedOnly, setFlaggedOnly] = useState(false);
+  const [message, setMessage] = useState("");
+  const fileRef = useRef<HTMLInputElement | null>(null);
+
+  const importFile = async (f: File) => {
+    const rows = parseCSV(await f.text());
+    if (rows.length < 2) {
+      setMessage(`${f.name} has no rows below the header.`);
+      return;
+    }
+    setFile({ name: f.name, rows });
+    setMap(guessColumns(rows[0]));
+    setMessage("");
+  };
+
+  // Solving hundreds of rows is only redone when the file, mapping or settings change
+  const { temperature, rh, pressure, material, roughness, frictionModel } = conditions;
+  const { length, flow, temperature: tempUnit, dp } = units;
+  const results = useMemo(() => {
+    if (!file || !map) return [];
+    return runBatch(file.rows, map, {
+      conditions: { temperature, rh, pressure, material, roughness, frictionModel },
+      library,
+      mode,
+      units: { length, flow, temperature: tempUnit, dp },
+    });
+  }, [file, map, mode, library, temperature, rh, pressure, material, roughness, frictionModel, length, flow, tempUnit, dp]);
+
+  const failed = results.filter((r) => r.errors.length).length;
+  const warned = results.filter((r) => !r.errors.length && r.warnings.length).length;
+  const shown = flaggedOnly ? results.filter((r) => r.errors.length || r.warnings.length) : results;
+
+  // Unit each mapped column is read in
+  const fieldUnit: Partial<Record<BatchField, string>> = {
+    width: units.length,
+    height: units.length,
+    flow: map && map.unit >= 0 ? "unit column" : units.flow,
+    T: units.temperature,
+    RH: "%",
+    targetDp: units.dp,
+  };
+
+  const status = (r: BatchRow) => (r.errors.length ? "Failed" : r.warnings.length ? "Warning" : "OK");
+
+  function handleExport() {
+    if (!file) return;
+    const out: (string | number)[][] = [
+      [
+        ...file.rows[0],
+        "Size",
+        `Flow (${units.flow})`,
+        `Velocity (${units.velocity})`,
+        `Friction (${units.dp})`,
+        `Velocity pressure (${units.pressure})`,
+        "Status",
+        "Notes",
+      ],
+    ];
+    for (const r of results) {
+      out.push([
+        ...file.rows[0].map((_, i) => r.cells[i] ?? ""),
+        r.result ? sectionLabel(r.result, units) : "",
+        r.result ? sig(fromSI("flow", resultFlow_m3s(r.result), units.flow)) : "",
+        r.calc ? sig(fromSI("velocity", r.calc.V, units.velocity)) : "",
+        r.calc ? sig(fromSI("dp", r.calc.dp_per_m, units.dp)) : "",
+        r.calc ? sig(fromSI("pressure", r.calc.velocityPressure, units.pressure)) : "",
+        status(r),
+        [...r.errors, ...r.warnings].join(" "),
+      ]);
+    }
+    exportCSV(file.name.replace(/\.csv$/i, "") + "-solved.csv", out);
+  }
+
+  return (
+    <div>
+      <div className="mb-3 flex flex-wrap items-end gap-3">
+        <Button variant="secondary" onClick={() => fileRef.current?.click()}>
+          Import CSV
+        </Button>
+        <input
+          ref={fileRef}
+          type="file"
+          accept="text/csv,.csv"
+          className="hidden"
+          onChange={(e) => {
+            const f = e.target.files?.[0];
+            if (f) void importFile(f);
+            e.target.value = "";
+          }}
+        />
+        <div>
+          <Label className="mb-1 block">Mode where not given</Label>
+          <Select value={mode} onValueChange={(v) => setMode(v as Mode)}>
+            <SelectTrigger className="w-[170px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(MODE_LABELS) as Mode[])
+                .filter((m) => m !== "magic")
+                .map((m) => (
+                  <SelectItem key={m} value={m}>
+                    {MODE_LABELS[m]}
+                  </SelectItem>
+                ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <Button variant="ghost" className="ml-auto" onClick={handleExport} disabled={!results.length}>
+          Export CSV
+        </Button>
+      </div>
+      {message && <div className="mb-2 text-sm text-amber-800">{message}</div>}
+
+      {!file && (
+        <div className="text-sm text-slate-600">
+          Import a schedule with one duct per row and a header row, e.g. id, shape, width, height, flow,
+          unit, material, T, RH, target Pa/m, mode. Columns are matched by name and can be remapped.
+        </div>
+      )}
+
+      {file && map && (
+        <>
+          <div className="mb-1 text-sm font-medium">
+            Columns of {file.name} — {file.rows.length - 1} row(s)
+          </div>
+          <div className="mb-3 grid gap-2 sm:grid-cols-3 lg:grid-cols-4">
+            {(Object.keys(BATCH_FIELDS) as BatchField[]).map((f) => (
+              <div key={f}>
+                <Label className="mb-1 block text-xs">
+                  {BATCH_FIELDS[f]}
+                  {fieldUnit[f] && ` (${fieldUnit[f]})`}
+                </Label>
+                <Select
+                  value={map[f] >= 0 ? String(map[f]) : NONE}
+                  onValueChange={(v) => setMap({ ...map, [f]: v === NONE ? -1 : Number(v) })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NONE}>— not in file —</SelectItem>
+                    {file.rows[0].map((h, i) => (
+                      <SelectItem key={i} value={String(i)}>
+                        {h.trim() || `Column ${i + 1}`}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ))}
+          </div>
+
+          <div className="mb-2 flex flex-wrap items-center gap-3 text-sm">
+            <span>
+              {results.length - failed} solved, {warned} with warnings, {failed} failed
+            </span>
+            <label className="ml-auto flex items-center gap-2 text-xs">
+              <Switch checked={flaggedOnly} onCheckedChange={setFlaggedOnly} />
+              Only flagged rows
+            </label>
+          </div>
+
+          <div className="max-h-[60vh] overflow-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-slate-500">
+                  <th className="p-1 font-normal">Line</th>
+                  <th className="p-1 font-normal">Id</th>
+                  <th className="p-1 font-normal">Mode</th>
+                  <th className="p-1 font-normal">Size</th>
+                  <th className="p-1 font-normal">Flow</th>
+                  <th className="p-1 font-normal">Velocity</th>
+                  <th className="p-1 font-normal">Friction</th>
+                  <th className="p-1 font-normal">Notes</th>
+                </tr>
+              </thead>
+              <tbody>
+                {shown.map((r) => (
+                  <tr
+                    key={r.line}
+                    className={cn("border-t align-top", r.errors.length ? "bg-red-50" : r.warnings.length && "bg-amber-50")}
+                  >
+                    <td className="p-1 text-slate-500">{r.line}</td>
+                    <td className="p-1">{r.id}</td>
+                    <td className="p-1 whitespace-nowrap">{r.inputs ? MODE_LABELS[r.inputs.mode] : "—"}</td>
+                    <td className="p-1 whitespace-nowrap font-medium">{r.result ? sectionLabel(r.result, units) : "—"}</td>
+                    <td className="p-1 whitespace-nowrap">
+                      {r.result ? formatQuantity("flow", resultFlow_m3s(r.result), units.flow) : "—"}
+                    </td>
+                    <td className="p-1 whitespace-nowrap">{formatQuantity("velocity", r.calc?.V, units.velocity)}</td>
+                    <td className="p-1 whitespace-nowrap">{formatQuantity("dp", r.calc?.dp_per_m, units.dp)}</td>
+                    <td className="p-1 text-xs">
+                      {r.errors.map((e, i) => (
+                        <div key={`e${i}`} className="text-red-700">
+                          {e}
+                        </div>
+                      ))}
+                      {r.warnings.map((w, i) => (
+                        <div key={`w${i}`} className="text-amber-800">
+                          {w}
+                        </div>
+                      ))}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+
+      <div className="mt-3 text-xs text-slate-600">
+        Widths, heights, temperatures and friction rates are read in the units selected above; flows in
+        the row&apos;s unit column if there is one. Blank air or material cells take the current conditions.
+        Round ducts take their diameter from the width column; flat ovals their major and minor axes from
+        width and height.
+      </div>
+    </div>
+  );
+}
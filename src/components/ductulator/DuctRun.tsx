@@ -0,0 +1,180 @@
+"use client";
+
+import React, { useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectTrigger,
+  SelectValue,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectLabel,
+} from "@/components/ui/select";
+import {
+  FITTINGS,
+  FITTING_CATEGORIES,
+  calcSectionNums,
+  convertUnitText,
+  evaluateRun,
+  fittingById,
+  formatQuantity,
+  safeNum,
+  toSI,
+  type DuctConditions,
+  type DuctSection,
+  type FittingCategory,
+  type UnitPrefs,
+} from "@/lib/ductulator";
+import { useUnitChange } from "@/hooks/use-unit-change";
+import Acoustics from "@/components/ductulator/Acoustics";
+import Thermal from "@/components/ductulator/Thermal";
+
+// One editable fitting line; quantity and K are kept as typed
+type FittingLine = { key: number; fittingId: string; quantity: string; k: string };
+
+/**
+ * Straight length plus fittings on the current section, with the total
+ * pressure loss broken down by item.
+ */
+export default function DuctRun({
+  section,
+  flow_m3s,
+  conditions,
+  units,
+}: {
+  section: DuctSection;
+  flow_m3s: number;
+  conditions: DuctConditions;
+  units: UnitPrefs;
+}) {
+  const [bufLength, setBufLength] = useState<string>("10"); // units.distance
+  const [lines, setLines] = useState<FittingLine[]>([]);
+  const nextKey = useRef(1);
+
+  // Keep the typed length meaning the same run when the distance unit changes
+  useUnitChange(units, (from, to) =>
+    setBufLength((b) => convertUnitText("distance", b, from.distance, to.distance))
+  );
+
+  const calc = calcSectionNums(section, flow_m3s, conditions);
+  const length_m = toSI("distance", safeNum(bufLength, 0), units.distance);
+  const breakdown = evaluateRun(
+    length_m,
+    calc,
+    lines.map((l) => ({
+      fittingId: l.fittingId,
+      quantity: safeNum(l.quantity, 0),
+      k: l.k.trim() === "" ? undefined : safeNum(l.k, 0),
+    }))
+  );
+  const pa = (v: number) => formatQuantity("pressure", v, units.pressure);
+
+  const addLine = () =>
+    setLines((s) => [...s, { key: nextKey.current++, fittingId: FITTINGS[0].id, quantity: "1", k: "" }]);
+  const updateLine = (key: number, patch: Partial<FittingLine>) =>
+    setLines((s) => s.map((l) => (l.key === key ? { ...l, ...patch } : l)));
+  const removeLine = (key: number) => setLines((s) => s.filter((l) => l.key !== key));
+
+  return (
+    <div className="rounded border p-3">
+      <div className="mb-2 flex items-center justify-between">
+        <div className="text-sm font-medium">Duct run — straight length & fittings</div>
+        <div className="text-xs text-slate-500">
+          Velocity pressure {pa(calc.velocityPressure)}, friction{" "}
+          {formatQuantity("dp", calc.dp_per_m, units.dp)}
+        </div>
+      </div>
+
+      <div className="mb-2 flex items-end gap-2">
+        <div>
+          <Label className="mb-1 block">Straight length ({units.distance})</Label>
+          <Input className="w-[120px]" value={bufLength} onChange={(e) => setBufLength(e.target.value)} />
+        </div>
+        <Button variant="secondary" onClick={addLine}>
+          Add fitting
+        </Button>
+      </div>
+
+      {lines.map((l) => {
+        const type = fittingById(l.fittingId);
+        return (
+          <div key={l.key} className="mb-2 flex items-center gap-2">
+            <Select value={l.fittingId} onValueChange={(v) => updateLine(l.key, { fittingId: v })}>
+              <SelectTrigger className="flex-1">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(FITTING_CATEGORIES) as FittingCategory[]).map((cat) => (
+                  <SelectGroup key={cat}>
+                    <SelectLabel>{FITTING_CATEGORIES[cat]}</SelectLabel>
+                    {FITTINGS.filter((f) => f.category === cat).map((f) => (
+                      <SelectItem key={f.id} value={f.id}>
+                        {f.name}
+                      </SelectItem>
+                    ))}
+                  </SelectGroup>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input
+              className="w-[70px]"
+              title="Quantity"
+              value={l.quantity}
+              onChange={(e) => updateLine(l.key, { quantity: e.target.value })}
+            />
+            <Input
+              className="w-[90px]"
+              title="Loss coefficient K (blank = catalogue value)"
+              placeholder={`K ${type?.k ?? ""}`}
+              value={l.k}
+              onChange={(e) => updateLine(l.key, { k: e.target.value })}
+            />
+            <Button variant="ghost" onClick={() => removeLine(l.key)}>
+              Remove
+            </Button>
+          </div>
+        );
+      })}
+
+      <table className="mt-2 w-full text-sm">
+        <thead>
+          <tr className="text-left text-slate-500">
+            <th className="py-1 font-normal">Item</th>
+            <th className="py-1 font-normal">Qty</th>
+            <th className="py-1 font-normal">K</th>
+            <th className="py-1 text-right font-normal">Loss</th>
+          </tr>
+        </thead>
+        <tbody>
+          {breakdown.items.map((it, i) => (
+            <tr key={i} className="border-t">
+              <td className="py-1">{it.label}</td>
+              <td className="py-1">
+                {it.k == null ? formatQuantity("distance", it.quantity, units.distance, 2) : it.quantity}
+              </td>
+              <td className="py-1">{it.k == null ? "—" : it.k.toFixed(2)}</td>
+              <td className="py-1 text-right">{pa(it.loss)}</td>
+            </tr>
+          ))}
+          <tr className="border-t font-medium">
+            <td className="py-1" colSpan={3}>
+              Total (straight {pa(breakdown.straight)} + fittings {pa(breakdown.fittings)})
+            </td>
+            <td className="py-1 text-right">{pa(breakdown.total)}</td>
+          </tr>
+        </tbody>
+      </table>
+
+      <Acoustics
+        section={section}
+        calc={calc}
+        fittings={breakdown.items.flatMap((it) => (it.k == null ? [] : [{ label: it.label, k: it.k, quantity: it.quantity }]))}
+        units={units}
+      />
+      <Thermal section={section} flow_m3s={flow_m3s} length_m={length_m} conditions={conditions} units={units} />
+    </div>
+  );
+}
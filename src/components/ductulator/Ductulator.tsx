@@ -16,70 +16,87 @@ import {
   SelectTrigger,
   SelectValue,
   SelectContent,
+  SelectGroup,
   SelectItem,
+  SelectLabel,
 } from "@/components/ui/select";
 import { cn } from "@/lib/utils";
-
-// ===================== units & physics helpers =====================
-const mmToM = (mm: number) => mm / 1000;
-const mToMm = (m: number) => m * 1000;
-const lsToM3s = (ls: number) => ls * 0.001;
-const m3hToM3s = (m3h: number) => m3h / 3600;
-const safeNum = (v: unknown, fallback = 0) => {
-  const n = Number(v);
-  return Number.isFinite(n) ? n : fallback;
-};
-
-function saturationVaporPressurePa(Tc: number) {
-  // Magnus (Tetens-like) approximation
-  return 610.94 * Math.exp((17.625 * Tc) / (243.04 + Tc));
-}
-function moistAirDensity(pressurePa: number, Tc: number, RHpercent: number) {
-  const T = Tc + 273.15;
-  const Rd = 287.058;
-  const Rv = 461.495;
-  const es = saturationVaporPressurePa(Tc);
-  const pv = (RHpercent / 100) * es; // partial pressure water vapor
-  const pd = Math.max(pressurePa - pv, 0); // dry air partial pressure
-  return pd / (Rd * T) + pv / (Rv * T);
-}
-function dynamicViscosityAir(Tc: number) {
-  // Sutherland’s law
-  const T = Tc + 273.15;
-  const mu0 = 1.716e-5; // Pa·s at 0°C
-  const T0 = 273.15;
-  const S = 110.4;
-  return mu0 * Math.pow(T / T0, 1.5) * ((T0 + S) / (T + S));
-}
-function haalandFrictionFactor(Re: number, eps_over_D: number) {
-  if (!Number.isFinite(Re) || Re <= 0) return NaN;
-  if (Re < 2300) return 64.0 / Re; // laminar
-  const A = Math.pow(eps_over_D / 3.7, 1.11) + 6.9 / Re;
-  return 1.0 / Math.pow(-1.8 * Math.log10(A), 2);
-}
-function rectArea_m2_from_mm(w_mm: number, h_mm: number) {
-  return Math.max(0, (w_mm / 1000) * (h_mm / 1000));
-}
-function rectPerimeter_m_from_mm(w_mm: number, h_mm: number) {
-  return 2 * ((w_mm / 1000) + (h_mm / 1000));
-}
-
-const ROUGHNESS: Record<string, number> = {
-  "Galvanised steel": 0.00015,
-  "Mild steel": 0.000045,
-  Aluminium: 0.0000018,
-  PVC: 5e-7,
-};
-
-// =========================== CSV helper ===========================
-function exportCSV(filename: string, rows: (string | number)[][]) {
-  const csv = rows.map((r) => r.join(",")).join("\n");
-  const blob = new Blob([csv], { type: "text/csv;charset=utf-8;" });
-  const link = document.createElement("a");
-  link.href = URL.createObjectURL(blob);
-  link.download = filename;
-  link.click();
-}
+import DuctRun from "@/components/ductulator/DuctRun";
+import NetworkEditor from "@/components/ductulator/NetworkEditor";
+import SizingSchedule from "@/components/ductulator/SizingSchedule";
+import StaticRegain from "@/components/ductulator/StaticRegain";
+import BatchSchedule from "@/components/ductulator/BatchSchedule";
+import MaterialsLibrary from "@/components/ductulator/MaterialsLibrary";
+import AirProfiles from "@/components/ductulator/AirProfiles";
+import ProjectsSidebar from "@/components/ductulator/ProjectsSidebar";
+import ScenarioCompare, { type Scenario } from "@/components/ductulator/ScenarioCompare";
+import FrictionChart from "@/components/ductulator/FrictionChart";
+import EquivalentDiameter from "@/components/ductulator/EquivalentDiameter";
+import Sweep from "@/components/ductulator/Sweep";
+import Psychrometrics from "@/components/ductulator/Psychrometrics";
+import StandardSize, {
+  NO_STANDARD_SIZE,
+  type StandardSizeSettings,
+} from "@/components/ductulator/StandardSize";
+import { exportCSV } from "@/components/ductulator/csv";
+import { useStoredState } from "@/hooks/use-stored-state";
+import {
+  AIR_PROFILES,
+  DEFAULT_FRICTION_MODEL,
+  FRICTION_MODELS,
+  MAGIC_LOCK_KEYS,
+  MODE_LABELS,
+  NO_MAGIC_LOCKS,
+  ROUGHNESS,
+  STANDARD_PRESSURE_PA,
+  UNIT_OPTIONS,
+  UNIT_SYSTEMS,
+  altitudeToPressurePa,
+  calcSectionNums,
+  convertUnit,
+  convertUnitText,
+  formatQuantity,
+  fromSI,
+  isKnownMaterial,
+  airProfilesToJSON,
+  decodeSharedCalc,
+  encodeSharedCalc,
+  magicDof,
+  materialLibraryToJSON,
+  parseAirProfiles,
+  parseMaterialLibrary,
+  pressureToAltitudeM,
+  resultFlow_m3s,
+  roughnessFor,
+  safeNum,
+  solveAspectRect,
+  solveDiameter,
+  solveDuct,
+  solveOvalMajor,
+  toSI,
+  type AirProfile,
+  type AirProfileLibrary,
+  type ChartPoint,
+  type DuctConditions,
+  type DuctInputs,
+  type DuctResult,
+  type DuctSection,
+  type DuctShape,
+  type FrictionModel,
+  type MagicLocks,
+  type MagicResidual,
+  type MaterialLibrary,
+  type SharedCalc,
+  type Mode,
+  type Quantity,
+  type UnitPrefs,
+  type UnitSystem,
+} from "@/lib/ductulator";
+
+// Committed values are kept exact; their input boxes show them rounded. A box
+// still showing that rounding was not edited, so it keeps the exact value.
+const bufText = (v: number) => String(Number(v.toPrecision(6)));
+const fromBuf = (buf: string, committed: number) => (buf === bufText(committed) ? committed : safeNum(buf, 0));
 
 // Small UI helper for results
 function Row({ label, value }: { label: string; value: string }) {
@@ -91,111 +108,299 @@ function Row({ label, value }: { label: string; value: string }) {
   );
 }
 
+// Section dimensions for a result, whatever the shape
+function SectionRows({ section, lengthUnit }: { section: DuctSection; lengthUnit: UnitPrefs["length"] }) {
+  const len = (mm: number) => formatQuantity("length", mm, lengthUnit);
+  if (section.shape === "round") {
+    return <Row label="Diameter" value={len(section.diameter_mm)} />;
+  }
+  if (section.shape === "flatOval") {
+    return (
+      <>
+        <Row label="Major axis" value={len(section.major_mm)} />
+        <Row label="Minor axis" value={len(section.minor_mm)} />
+      </>
+    );
+  }
+  return (
+    <>
+      <Row label="Width" value={len(section.width_mm)} />
+      <Row label="Height" value={len(section.height_mm)} />
+    </>
+  );
+}
+
+const MAGIC_LOCK_FIELDS: Record<keyof MagicLocks, { label: string; q?: Quantity }> = {
+  flow: { label: "Flow", q: "flow" },
+  width: { label: "Width", q: "length" },
+  height: { label: "Height", q: "length" },
+  diameter: { label: "Diameter", q: "length" },
+  major: { label: "Major axis", q: "length" },
+  minor: { label: "Minor axis", q: "length" },
+  aspect: { label: "Aspect ratio (W:H)" },
+  velocity: { label: "Velocity", q: "velocity" },
+  dp: { label: "Pressure drop", q: "dp" },
+};
+
+// Quantity of each numeric result field, for exporting in display units.
+// Diameters are reported in metres; scale brings them to the SI length unit (mm).
+const RESULT_FIELDS: Record<string, { q: Quantity; scale?: number }> = {
+  width_mm: { q: "length" },
+  height_mm: { q: "length" },
+  diameter_mm: { q: "length" },
+  major_mm: { q: "length" },
+  minor_mm: { q: "length" },
+  hydraulicDiameter_m: { q: "length", scale: 1000 },
+  eqDiameter_m: { q: "length", scale: 1000 },
+  flow_m3s: { q: "flow" },
+  maxFlow_m3s: { q: "flow" },
+  averageVelocity: { q: "velocity" },
+  effectiveVelocity: { q: "velocity" },
+  velocity: { q: "velocity" },
+  dp_per_m: { q: "dp" },
+  dp_target: { q: "dp" },
+  velocityPressure: { q: "pressure" },
+  barometricPressure: { q: "barometric" },
+  airDensity: { q: "density" },
+  airViscosity: { q: "viscosity" },
+  roughness_m: { q: "length", scale: 1000 },
+};
+
+// Multi-duct tools shown as extra tabs next to the solve modes
+const TOOLS = {
+  network: "Network",
+  sizing: "Sizing",
+  regain: "Static regain",
+  batch: "Batch",
+} as const;
+type Tool = keyof typeof TOOLS;
+
+const QUANTITY_LABELS: Record<Quantity, string> = {
+  length: "Length",
+  flow: "Flow",
+  velocity: "Velocity",
+  dp: "Pressure drop",
+  pressure: "Pressure",
+  temperature: "Temperature",
+  distance: "Distance",
+  barometric: "Barometric",
+  density: "Density",
+  power: "Heat flow",
+  humidityRatio: "Humidity ratio",
+  enthalpy: "Enthalpy",
+  specificVolume: "Specific volume",
+  massFlow: "Mass flow",
+  viscosity: "Viscosity",
+};
+
+const DEFAULT_MATERIAL = "Galvanised steel";
+
+// What a shared link falls back to for anything it lacks (the page's own defaults, SI)
+const LINK_DEFAULTS: SharedCalc = {
+  mode: "pressureDrop",
+  shape: "rectangular",
+  material: DEFAULT_MATERIAL,
+  roughness_m: ROUGHNESS[DEFAULT_MATERIAL],
+  frictionModel: DEFAULT_FRICTION_MODEL,
+  profile: "Office HVAC",
+  temperature: 20,
+  rh: 50,
+  altitude_m: 0,
+  pressure: null,
+  width_mm: 200,
+  height_mm: 200,
+  diameter_mm: 200,
+  major_mm: 300,
+  minor_mm: 150,
+  aspectRatio: 0,
+  flow: 100,
+  flowUnit: "L/s",
+  velocity: 0,
+  targetDp: 1.0,
+  magicLocks: NO_MAGIC_LOCKS,
+};
+
 // ============================= App ================================
-type Mode = "pressureDrop" | "fixedDim" | "maxFlow" | "magic";
 
 export default function Ductulator() {
   const containerRef = useRef<HTMLDivElement | null>(null);
 
   // Top constants
-  const [material, setMaterial] = useState<string>("Galvanised steel");
+  const [material, setMaterial] = useState<string>(DEFAULT_MATERIAL);
+  const [userMaterials, setUserMaterials] = useStoredState<MaterialLibrary>(
+    "ductulator.materials",
+    {},
+    (raw) => parseMaterialLibrary(raw).materials,
+    materialLibraryToJSON
+  );
+  const [showMaterials, setShowMaterials] = useState(false);
+  // A shared link's material that is not in our library, used for that calculation only
+  const [linkMaterial, setLinkMaterial] = useState<{ name: string; roughness_m: number } | null>(null);
   const [presetProfile, setPresetProfile] = useState<string>("Office HVAC");
+  const [userProfiles, setUserProfiles] = useStoredState<AirProfileLibrary>(
+    "ductulator.airProfiles",
+    {},
+    (raw) => parseAirProfiles(raw).profiles,
+    airProfilesToJSON
+  );
+  const [showProfiles, setShowProfiles] = useState(false);
   const [temperature, setTemperature] = useState<number | string>(20);
   const [rh, setRh] = useState<number | string>(50);
+  // Site elevation, entered either as altitude or directly as barometric pressure
+  const [siteBy, setSiteBy] = useState<"altitude" | "pressure">("altitude");
+  const [altitude, setAltitude] = useState<number | string>(0); // units.distance
+  const [barometric, setBarometric] = useState<number | string>(101.325); // units.barometric
+  const [frictionModel, setFrictionModel] = useState<FrictionModel>(DEFAULT_FRICTION_MODEL);
+
+  // Units: a base system plus per-quantity overrides
+  const [unitSystem, setUnitSystem] = useState<UnitSystem>("SI");
+  const [units, setUnits] = useState<UnitPrefs>(UNIT_SYSTEMS.SI);
 
   // Modes & UI
   const [mode, setMode] = useState<Mode>("pressureDrop");
+  const [tool, setTool] = useState<Tool | null>(null); // multi-duct tools replace the single-duct view
   const [liveMode, setLiveMode] = useState<boolean>(false);
 
-  // Calculation state (numbers used by solver)
-  const [width, setWidth] = useState<number>(200); // mm
-  const [height, setHeight] = useState<number>(200); // mm
-  const [flowUnit, setFlowUnit] = useState<"L/s" | "m³/s" | "m³/h">("L/s");
-  const [flowInput, setFlowInput] = useState<number>(100); // in flowUnit
-  const [velocity, setVelocity] = useState<number>(0); // m/s
-  const [targetDp, setTargetDp] = useState<number>(1.0); // Pa/m
+  // Calculation state (numbers used by solver, in the display units)
+  const [shape, setShape] = useState<DuctShape>("rectangular");
+  const [width, setWidth] = useState<number>(200); // units.length
+  const [height, setHeight] = useState<number>(200); // units.length
+  const [diameter, setDiameter] = useState<number>(200); // units.length
+  const [major, setMajor] = useState<number>(300); // units.length
+  const [minor, setMinor] = useState<number>(150); // units.length
+  const [aspect, setAspect] = useState<number>(0); // W:H, 0 = not set
+  const [flowInput, setFlowInput] = useState<number>(100); // units.flow
+  const [velocity, setVelocity] = useState<number>(0); // units.velocity
+  const [targetDp, setTargetDp] = useState<number>(1.0); // units.dp
 
   // Input buffers (what user types)
   const [bufWidth, setBufWidth] = useState<string>(String(width));
   const [bufHeight, setBufHeight] = useState<string>(String(height));
+  const [bufDiameter, setBufDiameter] = useState<string>(String(diameter));
+  const [bufMajor, setBufMajor] = useState<string>(String(major));
+  const [bufMinor, setBufMinor] = useState<string>(String(minor));
+  const [bufAspect, setBufAspect] = useState<string>("");
   const [bufFlowInput, setBufFlowInput] = useState<string>(String(flowInput));
   const [bufVelocity, setBufVelocity] = useState<string>(String(velocity));
   const [bufTargetDp, setBufTargetDp] = useState<string>(String(targetDp));
 
+  const [standardSize, setStandardSize] = useState<StandardSizeSettings>(NO_STANDARD_SIZE);
+
   // Magic mode locks
-  const [magicLocks, setMagicLocks] = useState<{
-    flow: boolean;
-    width: boolean;
-    height: boolean;
-    velocity: boolean;
-    dp: boolean;
-  }>({ flow: false, width: false, height: false, velocity: false, dp: false });
+  const [magicLocks, setMagicLocks] = useState<MagicLocks>(NO_MAGIC_LOCKS);
 
   // Results, stale, warnings
-  const [results, setResults] = useState<any>(null);
+  const [results, setResults] = useState<DuctResult | null>(null);
   const [stale, setStale] = useState<boolean>(false);
   const [warnings, setWarnings] = useState<string[]>([]);
 
-  // Air presets
-  const AIR_PROFILES: Record<string, { T: number; RH: number }> = {
-    "Office HVAC": { T: 20, RH: 50 },
-    "Commercial Kitchen": { T: 30, RH: 60 },
-    "Industrial Process": { T: 40, RH: 30 },
-    "Cold Storage": { T: 5, RH: 70 },
-  };
+  // Shared links: what was wrong with the link opened, and a pending solve once it is applied
+  const [linkWarnings, setLinkWarnings] = useState<string[]>([]);
+  const [solveFromLink, setSolveFromLink] = useState(false);
+  const [linkCopied, setLinkCopied] = useState(false);
+  const [solvedQuery, setSolvedQuery] = useState(""); // inputs of the last solve, as a link query
+  const [showProjects, setShowProjects] = useState(false);
+  const [scenarios, setScenarios] = useState<Scenario[]>([]);
+  const [solvedInputs, setSolvedInputs] = useState<DuctInputs | null>(null); // what the results were solved from
+  const [solvedProfile, setSolvedProfile] = useState(""); // air profile selected at that solve
+  const profileFromLink = useRef(false); // the link sets the air itself, not the profile's
 
   // Apply preset on change
   useEffect(() => {
-    const p = AIR_PROFILES[presetProfile];
+    if (profileFromLink.current) {
+      profileFromLink.current = false;
+      return;
+    }
+    const p = Object.hasOwn(userProfiles, presetProfile) ? userProfiles[presetProfile] : AIR_PROFILES[presetProfile];
     if (p) {
-      setTemperature(p.T);
+      setTemperature(convertUnit("temperature", p.T, "°C", units.temperature));
       setRh(p.RH);
+      if (p.pressure != null) {
+        setSiteBy("pressure");
+        setBarometric(Number(fromSI("barometric", p.pressure, units.barometric).toPrecision(5)));
+      } else {
+        setSiteBy("altitude");
+        setAltitude(convertUnit("distance", p.altitude, "m", units.distance));
+      }
       if (!liveMode) setStale(true);
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [presetProfile]);
 
-  // Keep buffers in sync after a solve
+  // Restore a calculation from the page URL, then solve it
   useEffect(() => {
-    setBufWidth(String(width));
-    setBufHeight(String(height));
-    setBufFlowInput(String(flowInput));
-    setBufVelocity(String(velocity));
-    setBufTargetDp(String(targetDp));
-  }, [width, height, flowInput, velocity, targetDp]);
-
-  // Conversions
-  const flowInputToM3s = (val: number, unit: string) => {
-    const v = safeNum(val, 0);
-    if (unit === "L/s") return lsToM3s(v);
-    if (unit === "m³/h") return m3hToM3s(v);
-    return v; // m³/s
-  };
+    const shared = decodeSharedCalc(window.location.search, LINK_DEFAULTS);
+    if (!shared) return;
+    applySharedCalc(shared.calc);
+    setLinkWarnings(shared.warnings);
+    setSolveFromLink(true);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
 
-  // Core rectangular duct calc
-  const calcRectNums = (
-    w_mm: number,
-    h_mm: number,
-    Q_m3s: number,
-    T: number,
-    RH: number,
-    mat: string
-  ) => {
-    const p_atm = 101325;
-    const rho = moistAirDensity(p_atm, T, RH);
-    const mu = dynamicViscosityAir(T);
-    const A = rectArea_m2_from_mm(w_mm, h_mm);
-    const P = rectPerimeter_m_from_mm(w_mm, h_mm);
-    const Dh = A > 0 ? (4 * A) / P : 0; // m (hydraulic diameter)
-    const V = A > 0 ? Q_m3s / A : 0; // m/s
-    const Re = (rho * Math.abs(V) * Dh) / mu;
-    const eps = ROUGHNESS[mat] ?? 0.00015;
-    const f = haalandFrictionFactor(Re, eps / Math.max(Dh, 1e-9));
-    const dp_per_m = Dh > 0 ? (f * (rho * V * V)) / (2 * Dh) : Infinity; // Pa/m
-    const velocityPressure = 0.5 * rho * V * V; // Pa
-    const eqDiameter = Dh; // m
-    return { A, Dh, V, Re, f, dp_per_m, rho, mu, velocityPressure, eqDiameter };
-  };
+  useEffect(() => {
+    if (!solveFromLink) return;
+    setSolveFromLink(false);
+    applyBuffersToCalcAndSolve();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [solveFromLink]);
+
+  // Put a shared or saved calculation's inputs on screen (solve separately)
+  function applySharedCalc(c: SharedCalc) {
+    setTool(null);
+    setMode(c.mode);
+    setShape(c.shape);
+    setFrictionModel(c.frictionModel);
+    // The link's roughness is used for this calculation, whatever our library says
+    // about the material; nothing joins the library unless asked
+    setLinkMaterial({ name: c.material, roughness_m: c.roughness_m });
+    setMaterial(c.material);
+    if (c.profile !== presetProfile) {
+      profileFromLink.current = true;
+      setPresetProfile(c.profile);
+    }
+    setTemperature(Number(fromSI("temperature", c.temperature, units.temperature).toPrecision(6)));
+    setRh(c.rh);
+    if (c.pressure != null) {
+      setSiteBy("pressure");
+      setBarometric(Number(fromSI("barometric", c.pressure, units.barometric).toPrecision(5)));
+    } else {
+      setSiteBy("altitude");
+      setAltitude(Number(fromSI("distance", c.altitude_m, units.distance).toPrecision(6)));
+    }
+
+    // Values and buffers together, so the solve below sees them straight away
+    const shown = (n: number) => Number(n.toPrecision(6));
+    const len = (mm: number) => shown(fromSI("length", mm, units.length));
+    const both = (v: number, setValue: (v: number) => void, setBuf: (b: string) => void) => {
+      setValue(v);
+      setBuf(String(v));
+    };
+    both(len(c.width_mm), setWidth, setBufWidth);
+    both(len(c.height_mm), setHeight, setBufHeight);
+    both(len(c.diameter_mm), setDiameter, setBufDiameter);
+    both(len(c.major_mm), setMajor, setBufMajor);
+    both(len(c.minor_mm), setMinor, setBufMinor);
+    setAspect(c.aspectRatio);
+    setBufAspect(c.aspectRatio ? String(c.aspectRatio) : "");
+    setUnits((u) => ({ ...u, flow: c.flowUnit }));
+    both(c.flow, setFlowInput, setBufFlowInput);
+    both(shown(fromSI("velocity", c.velocity, units.velocity)), setVelocity, setBufVelocity);
+    both(shown(fromSI("dp", c.targetDp, units.dp)), setTargetDp, setBufTargetDp);
+    setMagicLocks(c.magicLocks);
+  }
+
+  // Keep buffers in sync after a solve
+  useEffect(() => {
+    setBufWidth(bufText(width));
+    setBufHeight(bufText(height));
+    setBufDiameter(bufText(diameter));
+    setBufMajor(bufText(major));
+    setBufMinor(bufText(minor));
+    setBufAspect(aspect ? String(aspect) : "");
+    setBufFlowInput(bufText(flowInput));
+    setBufVelocity(bufText(velocity));
+    setBufTargetDp(bufText(targetDp));
+  }, [width, height, diameter, major, minor, aspect, flowInput, velocity, targetDp]);
 
   // Mark results stale (manual mode)
   const markStale = () => {
@@ -206,7 +411,6 @@ export default function Ductulator() {
   const liveTimer = useRef<number | null>(null);
   const scheduleLiveSolve = () => {
     if (liveTimer.current) window.clearTimeout(liveTimer.current);
-    // @ts-ignore
     liveTimer.current = window.setTimeout(() => {
       applyBuffersToCalcAndSolve();
       liveTimer.current = null;
@@ -221,14 +425,24 @@ export default function Ductulator() {
   }, [
     bufWidth,
     bufHeight,
+    bufDiameter,
+    bufMajor,
+    bufMinor,
+    bufAspect,
     bufFlowInput,
-    flowUnit,
+    units,
     bufVelocity,
     bufTargetDp,
     temperature,
     rh,
+    siteBy,
+    altitude,
+    barometric,
     material,
+    userMaterials,
+    frictionModel,
     mode,
+    shape,
     liveMode,
   ]);
 
@@ -240,366 +454,328 @@ export default function Ductulator() {
     }
   };
 
-  // -------------------- solvers --------------------
-  function solveMissingDimension({
-    fixedIsWidth = true,
-    fixedValueDisplay,
-    Q_m3s,
-    targetDpPaPerM,
-  }: {
-    fixedIsWidth?: boolean;
-    fixedValueDisplay: number;
-    Q_m3s: number;
-    targetDpPaPerM: number;
-  }) {
-    const fixed_m = mmToM(safeNum(fixedValueDisplay, 0));
-    const target = safeNum(targetDpPaPerM, 0);
-    if (fixed_m <= 0 || Q_m3s <= 0 || target <= 0) return null;
-    let lo = 1e-4;
-    let hi = 5.0;
-    let best: { mid: number; dp: number } | null = null;
-    for (let i = 0; i < 60; i++) {
-      const mid = 0.5 * (lo + hi);
-      const w = fixedIsWidth ? fixed_m : mid;
-      const h = fixedIsWidth ? mid : fixed_m;
-      const calc = calcRectNums(
-        mToMm(w),
-        mToMm(h),
-        Q_m3s,
-        safeNum(temperature, 20),
-        safeNum(rh, 50),
-        material
-      );
-      const dp = calc.dp_per_m;
-      if (!Number.isFinite(dp)) break;
-      if (dp > target) lo = mid;
-      else hi = mid;
-      best = { mid, dp };
-      if (Math.abs(dp - target) / Math.max(target, 1e-6) < 1e-4) break;
-    }
-    if (!best) return null;
-    return { displayValueMm: mToMm(best.mid), dp: best.dp };
-  }
-
-  function solveMaxFlow({
-    w_mm,
-    h_mm,
-    targetDpPaPerM,
-  }: {
-    w_mm: number;
-    h_mm: number;
-    targetDpPaPerM: number;
-  }) {
-    const w = mmToM(safeNum(w_mm, 0));
-    const h = mmToM(safeNum(h_mm, 0));
-    const target = safeNum(targetDpPaPerM, 0);
-    if (w <= 0 || h <= 0 || target <= 0) return null;
-    let lo = 1e-6;
-    let hi = 10;
-    let bestQ = 0;
-    for (let i = 0; i < 80; i++) {
-      const mid = 0.5 * (lo + hi);
-      const calc = calcRectNums(
-        mToMm(w),
-        mToMm(h),
-        mid,
-        safeNum(temperature, 20),
-        safeNum(rh, 50),
-        material
-      );
-      const dp = calc.dp_per_m;
-      if (!Number.isFinite(dp)) break;
-      if (dp > target) hi = mid;
-      else {
-        lo = mid;
-        bestQ = mid;
-      }
-      if (Math.abs(dp - target) / Math.max(target, 1e-6) < 1e-4) break;
-    }
-    return bestQ;
-  }
-
   // ----------------- apply buffers -> solve -----------------
   function applyBuffersToCalcAndSolve() {
     setWarnings([]);
-    const parsedWidth = safeNum(bufWidth, 0);
-    const parsedHeight = safeNum(bufHeight, 0);
-    const parsedFlowInput = safeNum(bufFlowInput, 0);
-    const parsedVelocity = safeNum(bufVelocity, 0);
-    const parsedTargetDp = safeNum(bufTargetDp, 0);
+    const parsedWidth = fromBuf(bufWidth, width);
+    const parsedHeight = fromBuf(bufHeight, height);
+    const parsedDiameter = fromBuf(bufDiameter, diameter);
+    const parsedMajor = fromBuf(bufMajor, major);
+    const parsedMinor = fromBuf(bufMinor, minor);
+    const parsedAspect = safeNum(bufAspect, 0);
+    const parsedFlowInput = fromBuf(bufFlowInput, flowInput);
+    const parsedVelocity = fromBuf(bufVelocity, velocity);
+    const parsedTargetDp = fromBuf(bufTargetDp, targetDp);
 
     setWidth(parsedWidth);
     setHeight(parsedHeight);
+    setDiameter(parsedDiameter);
+    setMajor(parsedMajor);
+    setMinor(parsedMinor);
+    setAspect(parsedAspect);
     setFlowInput(parsedFlowInput);
     setVelocity(parsedVelocity);
     setTargetDp(parsedTargetDp);
 
+    const len = (v: number) => toSI("length", v, units.length);
     runSolverWithValues({
-      w_mm: parsedWidth,
-      h_mm: parsedHeight,
+      w_mm: len(parsedWidth),
+      h_mm: len(parsedHeight),
+      d_mm: len(parsedDiameter),
+      major_mm: len(parsedMajor),
+      minor_mm: len(parsedMinor),
+      aspectRatio: parsedAspect,
       flowInputVal: parsedFlowInput,
-      velocityVal: parsedVelocity,
-      targetDpVal: parsedTargetDp,
+      velocityVal: toSI("velocity", parsedVelocity, units.velocity),
+      targetDpVal: toSI("dp", parsedTargetDp, units.dp),
     });
   }
 
+  // Barometric pressure (Pa) from whichever site input is active
+  function sitePressurePa() {
+    if (siteBy === "altitude") {
+      return altitudeToPressurePa(toSI("distance", safeNum(altitude, 0), units.distance));
+    }
+    return toSI(
+      "barometric",
+      safeNum(barometric, fromSI("barometric", STANDARD_PRESSURE_PA, units.barometric)),
+      units.barometric
+    );
+  }
+  function changeSiteBy(next: "altitude" | "pressure") {
+    const p = sitePressurePa();
+    if (next === "pressure") {
+      setBarometric(Number(fromSI("barometric", p, units.barometric).toPrecision(5)));
+    } else {
+      setAltitude(Math.round(fromSI("distance", pressureToAltitudeM(p), units.distance)));
+    }
+    setSiteBy(next);
+  }
+
+  // The air state as entered, in the shape a saved profile takes
+  function currentAirProfile(): AirProfile {
+    const { temperature: T, rh: RH, pressure } = currentConditions();
+    return siteBy === "pressure"
+      ? { T, RH, altitude: Math.round(pressureToAltitudeM(pressure)), pressure }
+      : { T, RH, altitude: toSI("distance", safeNum(altitude, 0), units.distance) };
+  }
+
+  // A removed profile leaves the air as it is but clears the selection
+  function changeUserProfiles(next: AirProfileLibrary) {
+    setUserProfiles(next);
+    if (!Object.hasOwn(next, presetProfile) && !Object.hasOwn(AIR_PROFILES, presetProfile)) setPresetProfile("");
+  }
+
+  // Roughness of the selected material, from the link that brought it if there was one
+  function materialRoughness() {
+    if (linkMaterial?.name === material) return linkMaterial.roughness_m;
+    return roughnessFor(material, userMaterials);
+  }
+
+  // A linked material we also have, but with another roughness (libraries read after mount)
+  function linkRoughnessWarnings() {
+    if (linkMaterial?.name !== material || !isKnownMaterial(material, userMaterials)) return [];
+    const ours = roughnessFor(material, userMaterials);
+    if (Math.abs(ours - linkMaterial.roughness_m) <= 1e-9) return [];
+    const eps = (m: number) => formatQuantity("length", m * 1000, units.length, 4);
+    return [
+      `${material} has roughness ${eps(linkMaterial.roughness_m)} in the link but ${eps(ours)} here — the link's is used for this calculation.`,
+    ];
+  }
+
+  // Air state, material and friction model in SI, as the solvers take them
+  function currentConditions(): DuctConditions {
+    return {
+      material,
+      roughness: materialRoughness(),
+      frictionModel,
+      temperature: toSI(
+        "temperature",
+        safeNum(temperature, convertUnit("temperature", 20, "°C", units.temperature)),
+        units.temperature
+      ),
+      rh: safeNum(rh, 50),
+      pressure: sitePressurePa(),
+    };
+  }
+
+  // Solver inputs below are SI (mm, m/s, Pa/m); flow stays in units.flow.
+
   function runSolverWithValues({
     w_mm,
     h_mm,
+    d_mm,
+    major_mm,
+    minor_mm,
+    aspectRatio,
     flowInputVal,
     velocityVal,
     targetDpVal,
   }: {
     w_mm: number;
     h_mm: number;
+    d_mm: number;
+    major_mm: number;
+    minor_mm: number;
+    aspectRatio: number;
     flowInputVal: number;
     velocityVal: number;
     targetDpVal: number;
   }) {
-    const Tn = safeNum(temperature, 20);
-    const RHn = safeNum(rh, 50);
-    const Q = flowInputToM3s(flowInputVal, flowUnit);
-
-    if (mode === "pressureDrop") {
-      const calc = calcRectNums(w_mm, h_mm, Q, Tn, RHn, material);
-      setResults({
-        mode,
-        width_mm: w_mm,
-        height_mm: h_mm,
-        flow_m3s: Q,
-        eqDiameter_m: calc.eqDiameter,
-        averageVelocity: calc.V,
-        effectiveVelocity: calc.V,
-        dp_per_m: calc.dp_per_m,
-        velocityPressure: calc.velocityPressure,
-      });
-      setStale(false);
-      if (calc.V > 15)
-        setWarnings((s) => [...s, "Velocity high (>15 m/s) — check suitability"]);
-      return;
-    }
-
-    if (mode === "fixedDim") {
-      const needDp = safeNum(targetDpVal, 0);
-      const needV = safeNum(velocityVal, 0);
-      const Qv = Q > 0 ? Q : needV > 0 ? needV * rectArea_m2_from_mm(w_mm, h_mm) : 0;
-      let solvedW = w_mm;
-      let solvedH = h_mm;
-
-      if (w_mm > 0 && (!h_mm || h_mm <= 0)) {
-        let hFromV: number | null = null;
-        if (needV > 0 && Qv > 0) {
-          const Aneed = Qv / needV;
-          hFromV = mToMm(Aneed / mmToM(w_mm));
-        }
-        let hFromDp: number | null = null;
-        if (needDp > 0 && Qv > 0) {
-          const sol = solveMissingDimension({
-            fixedIsWidth: true,
-            fixedValueDisplay: w_mm,
-            Q_m3s: Qv,
-            targetDpPaPerM: needDp,
-          });
-          if (sol) hFromDp = sol.displayValueMm;
-        }
-        const candidates = [hFromV, hFromDp].filter((x) => x != null) as number[];
-        const pick = candidates.length
-          ? Math.max(...candidates.map((x) => safeNum(x, 0)))
-          : null;
-        if (pick) solvedH = pick;
-      } else if (h_mm > 0 && (!w_mm || w_mm <= 0)) {
-        let wFromV: number | null = null;
-        if (needV > 0 && Qv > 0) {
-          const Aneed = Qv / needV;
-          wFromV = mToMm(Aneed / mmToM(h_mm));
-        }
-        let wFromDp: number | null = null;
-        if (needDp > 0 && Qv > 0) {
-          const sol = solveMissingDimension({
-            fixedIsWidth: false,
-            fixedValueDisplay: h_mm,
-            Q_m3s: Qv,
-            targetDpPaPerM: needDp,
-          });
-          if (sol) wFromDp = sol.displayValueMm;
-        }
-        const candidates = [wFromV, wFromDp].filter((x) => x != null) as number[];
-        const pick = candidates.length
-          ? Math.max(...candidates.map((x) => safeNum(x, 0)))
-          : null;
-        if (pick) solvedW = pick;
+    const inputs: DuctInputs = {
+      ...currentConditions(),
+      mode,
+      shape,
+      width_mm: w_mm,
+      height_mm: h_mm,
+      diameter_mm: d_mm,
+      major_mm,
+      minor_mm,
+      aspectRatio,
+      flow: flowInputVal,
+      flowUnit: units.flow,
+      velocity: velocityVal,
+      targetDp: targetDpVal,
+      magicLocks,
+    };
+    const { result, warnings: solveWarnings } = solveDuct(inputs);
+    setWarnings(solveWarnings);
+    if (!result) return;
+    writeLink({ w_mm, h_mm, d_mm, major_mm, minor_mm, aspectRatio, flowInputVal, velocityVal, targetDpVal });
+    if (result.mode === "magic") {
+      const len = (mm: number) => fromSI("length", mm, units.length);
+      if (result.shape === "round") setDiameter(len(result.diameter_mm));
+      else if (result.shape === "flatOval") {
+        setMajor(len(result.major_mm));
+        setMinor(len(result.minor_mm));
+      } else {
+        setWidth(len(result.width_mm));
+        setHeight(len(result.height_mm));
       }
+      setFlowInput(fromSI("flow", result.flow_m3s, units.flow));
+    }
+    setResults(result);
+    setSolvedInputs(inputs);
+    setSolvedProfile(presetProfile);
+    setStale(false);
+  }
 
-      const calc = calcRectNums(solvedW, solvedH, Qv, Tn, RHn, material);
-      setResults({
-        mode,
-        width_mm: solvedW,
-        height_mm: solvedH,
-        flow_m3s: Qv,
-        dp_per_m: calc.dp_per_m,
-      });
-      setStale(false);
+  // Keep the page URL pointing at the calculation just solved
+  function writeLink(v: Parameters<typeof runSolverWithValues>[0]) {
+    const air = currentAirProfile();
+    const query = encodeSharedCalc({
+      mode,
+      shape,
+      material,
+      roughness_m: materialRoughness(),
+      frictionModel,
+      profile: presetProfile,
+      temperature: air.T,
+      rh: air.RH,
+      altitude_m: air.altitude,
+      pressure: air.pressure ?? null,
+      width_mm: v.w_mm,
+      height_mm: v.h_mm,
+      diameter_mm: v.d_mm,
+      major_mm: v.major_mm,
+      minor_mm: v.minor_mm,
+      aspectRatio: v.aspectRatio,
+      flow: v.flowInputVal,
+      flowUnit: units.flow,
+      velocity: v.velocityVal,
+      targetDp: v.targetDpVal,
+      magicLocks,
+    });
+    setSolvedQuery(query);
+    window.history.replaceState(null, "", `?${query}`);
+  }
+  // Reopen a saved or pinned calculation from its inputs and solve it again
+  function openCalcQuery(query: string) {
+    const saved = decodeSharedCalc(query, LINK_DEFAULTS);
+    if (!saved) {
+      setLinkWarnings(["This calculation has no inputs to reopen."]);
       return;
     }
-
-    if (mode === "maxFlow") {
-      const needDp = safeNum(targetDpVal, 0);
-      const needV = safeNum(velocityVal, 0);
-      if (needV > 0 && needDp > 0) {
-        setWarnings([
-          "Enter either Velocity OR Pressure Drop in Max Flow mode, not both.",
-        ]);
-        return;
-      }
-      if (needV > 0) {
-        const A = rectArea_m2_from_mm(w_mm, h_mm);
-        const Qcalc = needV * A;
-        const calc = calcRectNums(w_mm, h_mm, Qcalc, Tn, RHn, material);
-        setResults({
-          mode,
-          width_mm: w_mm,
-          height_mm: h_mm,
-          maxFlow_m3s: Qcalc,
-          velocity: needV,
-          dp_per_m: calc.dp_per_m,
-        });
-        setStale(false);
-        return;
-      }
-      if (needDp > 0) {
-        const maxQ = solveMaxFlow({ w_mm, h_mm, targetDpPaPerM: needDp });
-        const calc = calcRectNums(w_mm, h_mm, maxQ || 0, Tn, RHn, material);
-        setResults({
-          mode,
-          width_mm: w_mm,
-          height_mm: h_mm,
-          maxFlow_m3s: maxQ,
-          velocity: calc.V,
-          dp_target: needDp,
-        });
-        setStale(false);
-        return;
-      }
+    applySharedCalc(saved.calc);
+    setLinkWarnings(saved.warnings);
+    setSolveFromLink(true);
+  }
+  // A point picked on the friction chart: its flow and friction rate, with the
+  // current shape resized to run there (rectangles keep their proportions)
+  function pickChartPoint({ Q, dp }: ChartPoint) {
+    const conditions = currentConditions();
+    const target = { Q_m3s: Q, targetDpPaPerM: dp };
+    let section: DuctSection | null = null;
+    if (shape === "round") {
+      const sol = solveDiameter(target, conditions);
+      if (sol) section = { shape: "round", diameter_mm: sol.displayValueMm };
+    } else if (shape === "flatOval") {
+      const minor_mm = toSI("length", safeNum(bufMinor, 0), units.length);
+      const sol = solveOvalMajor({ minor_mm, ...target }, conditions);
+      if (sol) section = { shape: "flatOval", major_mm: sol.displayValueMm, minor_mm };
+    } else {
+      const w = safeNum(bufWidth, 0);
+      const h = safeNum(bufHeight, 0);
+      const aspect = safeNum(bufAspect, 0) || (w > 0 && h > 0 ? w / h : 1);
+      const sol = solveAspectRect({ aspect, ...target }, conditions);
+      if (sol) section = { shape: "rectangular", width_mm: sol.width_mm, height_mm: sol.height_mm };
     }
 
-    if (mode === "magic") {
-      const locked = {
-        flow: magicLocks.flow,
-        width: magicLocks.width,
-        height: magicLocks.height,
-        velocity: magicLocks.velocity,
-        dp: magicLocks.dp,
-      };
-      const lockedCount = Object.values(locked).filter(Boolean).length;
-      if (lockedCount >= 4) {
-        setWarnings(["Too many locked fields — unlock one to allow solving."]);
-        return;
-      }
-      if (lockedCount < 2) {
-        let suggestion = "";
-        if (!locked.width) suggestion = "Enter duct width";
-        else if (!locked.height) suggestion = "Enter duct height";
-        else if (!locked.flow && !locked.velocity) suggestion = "Enter flow rate or velocity";
-        else suggestion = "Provide additional locked input";
-        setWarnings([`Not enough constraints — ${suggestion}.`]);
-        return;
-      }
-
-      const targets = {
-        flow: flowInputToM3s(flowInput, flowUnit),
-        width: safeNum(w_mm, 0),
-        height: safeNum(h_mm, 0),
-        velocity: safeNum(velocityVal, 0),
-        dp: safeNum(targetDpVal, 0),
-      };
-
-      let state = {
-        flow: targets.flow || 0.1,
-        width: targets.width || 200,
-        height: targets.height || 200,
-      };
-
-      function residuals(s: { flow: number; width: number; height: number }) {
-        const calc = calcRectNums(s.width, s.height, s.flow, Tn, RHn, material);
-        const res: Record<string, number> = {};
-        if (locked.flow) res.flow = (s.flow - targets.flow) / Math.max(targets.flow, 1e-6);
-        if (locked.width) res.width = (s.width - targets.width) / Math.max(targets.width, 1e-6);
-        if (locked.height) res.height = (s.height - targets.height) / Math.max(targets.height, 1e-6);
-        if (locked.velocity) res.velocity = (calc.V - targets.velocity) / Math.max(targets.velocity, 1e-6);
-        if (locked.dp) res.dp = (calc.dp_per_m - targets.dp) / Math.max(targets.dp, 1e-6);
-        const keys = Object.keys(res);
-        const rms = keys.length
-          ? Math.sqrt(keys.map((k) => res[k] * res[k]).reduce((a, b) => a + b, 0) / keys.length)
-          : 0;
-        return { res, rms, calc };
-      }
-
-      let best: { state: any; rms: number; calc: any } | null = null;
-      for (let iter = 0; iter < 200; iter++) {
-        const stepFactors: any = { flow: 1.1, width: 1.05, height: 1.05 };
-        for (const varName of ["flow", "width", "height"] as const) {
-          if (
-            (varName === "flow" && locked.flow) ||
-            (varName === "width" && locked.width) ||
-            (varName === "height" && locked.height)
-          )
-            continue;
-          const base = { ...state } as any;
-          let bestLocal = { val: base[varName], rms: Infinity };
-          for (const dir of [1 / stepFactors[varName], stepFactors[varName]]) {
-            const trial = { ...base } as any;
-            trial[varName] = base[varName] * dir;
-            trial.width = Math.max(trial.width, 10);
-            trial.height = Math.max(trial.height, 10);
-            trial.flow = Math.max(trial.flow, 1e-6);
-            const { rms } = residuals(trial);
-            if (rms < bestLocal.rms) bestLocal = { val: trial[varName], rms };
-          }
-          (state as any)[varName] = bestLocal.val;
-        }
-        const cur = residuals(state);
-        if (!best || cur.rms < best.rms) best = { state: { ...state }, rms: cur.rms, calc: cur.calc };
-        if (best.rms < 1e-4) break;
-      }
+    const shown = (n: number) => String(Number(n.toPrecision(4)));
+    const lenBuf = (mm: number) => shown(fromSI("length", mm, units.length));
+    setBufFlowInput(shown(fromSI("flow", Q, units.flow)));
+    setBufTargetDp(shown(fromSI("dp", dp, units.dp)));
+    if (!section) return;
+    if (section.shape === "round") setBufDiameter(lenBuf(section.diameter_mm));
+    else if (section.shape === "flatOval") setBufMajor(lenBuf(section.major_mm));
+    else {
+      setBufWidth(lenBuf(section.width_mm));
+      setBufHeight(lenBuf(section.height_mm));
+    }
+    setBufVelocity(shown(fromSI("velocity", calcSectionNums(section, Q, conditions).V, units.velocity)));
+  }
 
-      if (best) {
-        setWidth(Number(best.state.width));
-        setHeight(Number(best.state.height));
-        setFlowInput(Number(best.state.flow));
-        const calc = calcRectNums(best.state.width, best.state.height, best.state.flow, Tn, RHn, material);
-        setResults({
-          mode: "magic",
-          width_mm: best.state.width,
-          height_mm: best.state.height,
-          flow_m3s: best.state.flow,
-          velocity: calc.V,
-          dp_per_m: calc.dp_per_m,
-        });
-        setStale(false);
-        return;
-      }
+  async function handleCopyLink() {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      setLinkCopied(true);
+      window.setTimeout(() => setLinkCopied(false), 2000);
+    } catch {
+      // Clipboard blocked: the address bar still holds the link
+    }
+  }
 
-      setWarnings(["Magic solver failed to converge — try different locks or starting values."]);
-      return;
+  // ----------------- units -----------------
+  // Re-express every entered value in the new units so the duct stays the same.
+  function applyUnits(next: UnitPrefs) {
+    // Committed values convert exactly; only the input boxes are rounded
+    const conv =
+      <Q extends Quantity>(q: Q) =>
+      (v: number) =>
+        units[q] === next[q] ? v : fromSI(q, toSI(q, v, units[q]), next[q]);
+    const convBuf =
+      <Q extends Quantity>(q: Q) =>
+      (b: string) =>
+        convertUnitText(q, b, units[q], next[q]);
+    for (const set of [setWidth, setHeight, setDiameter, setMajor, setMinor]) set(conv("length"));
+    for (const set of [setBufWidth, setBufHeight, setBufDiameter, setBufMajor, setBufMinor]) {
+      set(convBuf("length"));
     }
+    setFlowInput(conv("flow"));
+    setBufFlowInput(convBuf("flow"));
+    setVelocity(conv("velocity"));
+    setBufVelocity(convBuf("velocity"));
+    setTargetDp(conv("dp"));
+    setBufTargetDp(convBuf("dp"));
+    setTemperature((t) => convBuf("temperature")(String(t)));
+    setAltitude((a) => convBuf("distance")(String(a)));
+    setBarometric((b) => convBuf("barometric")(String(b)));
+    setStandardSize((st) => ({
+      ...st,
+      custom: st.custom
+        .split(/[,;\s]+/)
+        .filter(Boolean)
+        .map(convBuf("length"))
+        .join(", "),
+    }));
+    setUnits(next);
+  }
+  function changeUnitSystem(sys: UnitSystem) {
+    setUnitSystem(sys);
+    applyUnits(UNIT_SYSTEMS[sys]);
   }
+  const changeUnit = <Q extends Quantity>(q: Q, unit: UnitPrefs[Q]) => applyUnits({ ...units, [q]: unit });
 
   // ----------------- reset/export/screenshot -----------------
   function handleReset() {
-    setWidth(200);
-    setHeight(200);
-    setFlowInput(100);
+    setWidth(convertUnit("length", 200, "mm", units.length));
+    setHeight(convertUnit("length", 200, "mm", units.length));
+    setDiameter(convertUnit("length", 200, "mm", units.length));
+    setMajor(convertUnit("length", 300, "mm", units.length));
+    setMinor(convertUnit("length", 150, "mm", units.length));
+    setAspect(0);
+    setFlowInput(convertUnit("flow", 100, "L/s", units.flow));
     setVelocity(0);
-    setTargetDp(1.0);
+    setTargetDp(convertUnit("dp", 1.0, "Pa/m", units.dp));
     setResults(null);
     setStale(false);
     setWarnings([]);
-    setMagicLocks({ flow: false, width: false, height: false, velocity: false, dp: false });
+    setLinkWarnings([]);
+    setMagicLocks(NO_MAGIC_LOCKS);
   }
   function handleExportCSV() {
     if (!results) return;
-    const rows: (string | number)[][] = [["Key", "Value"]];
-    for (const k in results) rows.push([k, String(results[k])]);
+    const rows: (string | number)[][] = [["Key", "Value", "Unit"]];
+    for (const [k, v] of Object.entries(results)) {
+      const field = RESULT_FIELDS[k];
+      if (field && typeof v === "number") {
+        rows.push([k, fromSI(field.q, v * (field.scale ?? 1), units[field.q]), units[field.q]]);
+      } else if (k === "magicResiduals" && Array.isArray(v)) {
+        for (const r of v as MagicResidual[]) rows.push([`residual_${r.field}`, r.relative, "relative"]);
+      } else {
+        rows.push([k, k === "frictionModel" ? FRICTION_MODELS[v as FrictionModel] : String(v), ""]);
+      }
+    }
     exportCSV("ductulator-results.csv", rows);
   }
   async function handleScreenshot() {
@@ -619,20 +795,36 @@ export default function Ductulator() {
     }
   }
 
-  const toggleMagicLock = (key: keyof typeof magicLocks) => {
+  // A removed library material falls back to the default rather than an unknown name
+  function changeUserMaterials(next: MaterialLibrary) {
+    setUserMaterials(next);
+    if (!isKnownMaterial(material, next) && material !== linkMaterial?.name) setMaterial(DEFAULT_MATERIAL);
+  }
+
+  const toggleMagicLock = (key: keyof MagicLocks) => {
     setMagicLocks((s) => ({ ...s, [key]: !s[key] }));
     if (!liveMode) setStale(true);
   };
-  const fmt = (v: any, d = 3) => (Number.isFinite(v) ? Number(v).toFixed(d) : "—");
+  const fmt = (v: unknown, d = 3) => (Number.isFinite(v) ? Number(v).toFixed(d) : "—");
+  const show = <Q extends Quantity>(q: Q, si: unknown) => formatQuantity(q, si, units[q]);
+  const dof = magicDof(shape, magicLocks);
+  const allWarnings = [...linkWarnings, ...linkRoughnessWarnings(), ...warnings];
 
   // ============================= UI =============================
   return (
-    <div ref={containerRef} className="p-6">
-      <Card>
+    <div ref={containerRef} className="flex flex-col items-start gap-4 p-6 lg:flex-row">
+      {showProjects && (
+        <ProjectsSidebar
+          current={results && solvedQuery ? { query: solvedQuery, result: results, warnings } : null}
+          onOpen={(calc) => openCalcQuery(calc.query)}
+          units={units}
+        />
+      )}
+      <Card className="w-full min-w-0 flex-1">
         <CardHeader>
           <div className="flex items-start justify-between gap-4">
             <div>
-              <CardTitle>Ductulator — SI</CardTitle>
+              <CardTitle>Ductulator — {unitSystem}</CardTitle>
               <div className="text-sm text-slate-500">
                 Material & air properties (constants)
               </div>
@@ -640,12 +832,18 @@ export default function Ductulator() {
             <div className="flex items-center gap-3">
               <div className="text-sm">Live mode</div>
               <Switch checked={liveMode} onCheckedChange={setLiveMode} />
+              <Button variant="ghost" onClick={() => setShowProjects((v) => !v)}>
+                {showProjects ? "Hide projects" : "Projects"}
+              </Button>
               <Button variant="ghost" onClick={handleExportCSV}>
                 Export CSV
               </Button>
               <Button variant="ghost" onClick={handleScreenshot}>
                 Screenshot
               </Button>
+              <Button variant="ghost" onClick={handleCopyLink} disabled={!results}>
+                {linkCopied ? "Link copied" : "Copy link"}
+              </Button>
             </div>
           </div>
         </CardHeader>
@@ -654,11 +852,33 @@ export default function Ductulator() {
           {/* Constants row */}
           <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-2">
             <div>
-              <Label>Material</Label>
+              <div className="flex items-center justify-between">
+                <Label>Material</Label>
+                <Button variant="ghost" size="sm" className="h-6 px-2 text-xs" onClick={() => setShowMaterials((v) => !v)}>
+                  {showMaterials ? "Hide my materials" : "My materials"}
+                </Button>
+              </div>
+              {linkMaterial && material === linkMaterial.name && !isKnownMaterial(material, userMaterials) && (
+                <div className="mt-1 flex items-center justify-between text-xs text-slate-500">
+                  <span>From the link, not in your materials</span>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-6 px-2 text-xs"
+                    onClick={() => setUserMaterials({ ...userMaterials, [linkMaterial.name]: linkMaterial.roughness_m })}
+                  >
+                    Save to my materials
+                  </Button>
+                </div>
+              )}
               <Select
                 value={material}
                 onValueChange={(v) => {
                   setMaterial(v);
+                  // A library material picked here takes our roughness from now on
+                  if (v !== material && linkMaterial && isKnownMaterial(linkMaterial.name, userMaterials)) {
+                    setLinkMaterial(null);
+                  }
                   if (!liveMode) setStale(true);
                 }}
               >
@@ -666,9 +886,50 @@ export default function Ductulator() {
                   <SelectValue placeholder="Select material" />
                 </SelectTrigger>
                 <SelectContent>
-                  {Object.keys(ROUGHNESS).map((k) => (
+                  <SelectGroup>
+                    <SelectLabel>Built-in</SelectLabel>
+                    {Object.keys(ROUGHNESS).map((k) => (
+                      <SelectItem key={k} value={k}>
+                        {k}
+                      </SelectItem>
+                    ))}
+                  </SelectGroup>
+                  {Object.keys(userMaterials).length > 0 && (
+                    <SelectGroup>
+                      <SelectLabel>My materials</SelectLabel>
+                      {Object.keys(userMaterials).map((k) => (
+                        <SelectItem key={k} value={k}>
+                          {k}
+                        </SelectItem>
+                      ))}
+                    </SelectGroup>
+                  )}
+                  {linkMaterial && !isKnownMaterial(linkMaterial.name, userMaterials) && (
+                    <SelectGroup>
+                      <SelectLabel>From link</SelectLabel>
+                      <SelectItem value={linkMaterial.name}>{linkMaterial.name}</SelectItem>
+                    </SelectGroup>
+                  )}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div>
+              <Label>Friction model</Label>
+              <Select
+                value={frictionModel}
+                onValueChange={(v: FrictionModel) => {
+                  setFrictionModel(v);
+                  if (!liveMode) setStale(true);
+                }}
+              >
+                <SelectTrigger className="mt-1">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(FRICTION_MODELS) as FrictionModel[]).map((k) => (
                     <SelectItem key={k} value={k}>
-                      {k}
+                      {FRICTION_MODELS[k]}
                     </SelectItem>
                   ))}
                 </SelectContent>
@@ -676,23 +937,41 @@ export default function Ductulator() {
             </div>
 
             <div>
-              <Label>Air profile</Label>
+              <div className="flex items-center justify-between">
+                <Label>Air profile</Label>
+                <Button variant="ghost" size="sm" className="h-6 px-2 text-xs" onClick={() => setShowProfiles((v) => !v)}>
+                  {showProfiles ? "Hide my profiles" : "My profiles"}
+                </Button>
+              </div>
               <Select value={presetProfile} onValueChange={setPresetProfile}>
                 <SelectTrigger className="mt-1">
                   <SelectValue placeholder="Select profile" />
                 </SelectTrigger>
                 <SelectContent>
-                  {Object.keys(AIR_PROFILES).map((k) => (
-                    <SelectItem key={k} value={k}>
-                      {k}
-                    </SelectItem>
-                  ))}
+                  <SelectGroup>
+                    <SelectLabel>Built-in</SelectLabel>
+                    {Object.keys(AIR_PROFILES).map((k) => (
+                      <SelectItem key={k} value={k}>
+                        {k}
+                      </SelectItem>
+                    ))}
+                  </SelectGroup>
+                  {Object.keys(userProfiles).length > 0 && (
+                    <SelectGroup>
+                      <SelectLabel>My profiles</SelectLabel>
+                      {Object.keys(userProfiles).map((k) => (
+                        <SelectItem key={k} value={k}>
+                          {k}
+                        </SelectItem>
+                      ))}
+                    </SelectGroup>
+                  )}
                 </SelectContent>
               </Select>
             </div>
 
             <div>
-              <Label>Temperature (°C)</Label>
+              <Label>Temperature ({units.temperature})</Label>
               <Input
                 className="mt-1"
                 value={String(temperature)}
@@ -705,6 +984,31 @@ export default function Ductulator() {
               />
             </div>
 
+            <div>
+              <Label>Site</Label>
+              <div className="mt-1 flex gap-2">
+                <Select value={siteBy} onValueChange={(v: "altitude" | "pressure") => changeSiteBy(v)}>
+                  <SelectTrigger className="w-[130px]">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="altitude">Altitude ({units.distance})</SelectItem>
+                    <SelectItem value="pressure">Pressure ({units.barometric})</SelectItem>
+                  </SelectContent>
+                </Select>
+                <Input
+                  value={String(siteBy === "altitude" ? altitude : barometric)}
+                  onChange={(e) => {
+                    if (siteBy === "altitude") setAltitude(e.target.value);
+                    else setBarometric(e.target.value);
+                    if (!liveMode) setStale(true);
+                    else scheduleLiveSolve();
+                  }}
+                  onKeyDown={onKeyDownSolve}
+                />
+              </div>
+            </div>
+
             <div>
               <Label>Relative Humidity (%)</Label>
               <Input
@@ -720,266 +1024,543 @@ export default function Ductulator() {
             </div>
           </div>
 
+          {showProfiles && (
+            <AirProfiles
+              library={userProfiles}
+              onChange={changeUserProfiles}
+              current={currentAirProfile()}
+              selected={presetProfile}
+              onSelect={setPresetProfile}
+              units={units}
+            />
+          )}
+
+          {showMaterials && (
+            <MaterialsLibrary library={userMaterials} onChange={changeUserMaterials} units={units} />
+          )}
+
+          {/* Units row */}
+          <div className="mb-2 flex flex-wrap items-end gap-3">
+            <div>
+              <Label>Units</Label>
+              <Select value={unitSystem} onValueChange={(v: UnitSystem) => changeUnitSystem(v)}>
+                <SelectTrigger className="mt-1 w-[90px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="SI">SI</SelectItem>
+                  <SelectItem value="IP">IP</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            {(Object.keys(QUANTITY_LABELS) as Quantity[]).map((q) => (
+              <div key={q}>
+                <Label className="text-xs text-slate-500">{QUANTITY_LABELS[q]}</Label>
+                <Select
+                  value={units[q]}
+                  onValueChange={(v) => changeUnit(q, v as UnitPrefs[typeof q])}
+                >
+                  <SelectTrigger className="mt-1 w-[130px]">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {UNIT_OPTIONS[q].map((u) => (
+                      <SelectItem key={u} value={u}>
+                        {u}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ))}
+          </div>
+
           <Separator className="my-3" />
 
           {/* Mode tabs */}
           <div className="mb-4">
             <Tabs
-              value={mode}
+              value={tool ?? mode}
               onValueChange={(v) => {
+                if (v in TOOLS) {
+                  setTool(v as Tool);
+                  return;
+                }
+                setTool(null);
                 setMode(v as Mode);
                 if (!liveMode) setStale(true);
               }}
             >
               <TabsList>
-                <TabsTrigger value="pressureDrop">Pressure Drop</TabsTrigger>
-                <TabsTrigger value="fixedDim">Fixed Dim</TabsTrigger>
-                <TabsTrigger value="maxFlow">Max Flow Rate</TabsTrigger>
-                <TabsTrigger value="magic">Magic Mode</TabsTrigger>
+                {(Object.keys(MODE_LABELS) as Mode[]).map((m) => (
+                  <TabsTrigger key={m} value={m}>
+                    {MODE_LABELS[m]}
+                  </TabsTrigger>
+                ))}
+                {(Object.keys(TOOLS) as Tool[]).map((t) => (
+                  <TabsTrigger key={t} value={t}>
+                    {TOOLS[t]}
+                  </TabsTrigger>
+                ))}
               </TabsList>
             </Tabs>
           </div>
 
-          <div className="grid gap-4 md:grid-cols-2">
-            {/* Left: Inputs */}
-            <div>
-              {/* Width */}
-              <div className="mb-2">
-                <Label className="mb-1 block">Width (mm)</Label>
-                <Input
-                  value={bufWidth}
-                  onChange={(e) => {
-                    setBufWidth(e.target.value);
-                    if (!liveMode) setStale(true);
-                    else scheduleLiveSolve();
-                  }}
-                  onKeyDown={onKeyDownSolve}
-                  disabled={mode === "magic" && magicLocks.width}
-                />
-              </div>
+          {tool === "network" && <NetworkEditor conditions={currentConditions()} units={units} />}
+          {tool === "sizing" && <SizingSchedule conditions={currentConditions()} units={units} />}
+          {tool === "regain" && <StaticRegain conditions={currentConditions()} units={units} />}
+          {tool === "batch" && <BatchSchedule conditions={currentConditions()} library={userMaterials} units={units} />}
+
+          {!tool && (
+            <>
+              <div className="grid gap-4 md:grid-cols-2">
+                {/* Left: Inputs */}
+                <div>
+                  {/* Shape */}
+                  <div className="mb-2">
+                    <Label className="mb-1 block">Shape</Label>
+                    <Select
+                      value={shape}
+                      onValueChange={(v: DuctShape) => {
+                        setShape(v);
+                        if (!liveMode) setStale(true);
+                      }}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="rectangular">Rectangular</SelectItem>
+                        <SelectItem value="round">Round</SelectItem>
+                        <SelectItem value="flatOval">Flat oval</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
 
-              {/* Height */}
-              <div className="mb-2">
-                <Label className="mb-1 block">Height (mm)</Label>
-                <Input
-                  value={bufHeight}
-                  onChange={(e) => {
-                    setBufHeight(e.target.value);
-                    if (!liveMode) setStale(true);
-                    else scheduleLiveSolve();
-                  }}
-                  onKeyDown={onKeyDownSolve}
-                  disabled={mode === "magic" && magicLocks.height}
-                />
-              </div>
+                  {shape === "round" && (
+                    <div className="mb-2">
+                      <Label className="mb-1 block">Diameter ({units.length})</Label>
+                      <Input
+                        value={bufDiameter}
+                        onChange={(e) => {
+                          setBufDiameter(e.target.value);
+                          if (!liveMode) setStale(true);
+                          else scheduleLiveSolve();
+                        }}
+                        onKeyDown={onKeyDownSolve}
+                        disabled={mode === "magic" && magicLocks.diameter}
+                      />
+                    </div>
+                  )}
+
+                  {shape === "flatOval" && (
+                    <>
+                      <div className="mb-2">
+                        <Label className="mb-1 block">Major axis ({units.length})</Label>
+                        <Input
+                          value={bufMajor}
+                          onChange={(e) => {
+                            setBufMajor(e.target.value);
+                            if (!liveMode) setStale(true);
+                            else scheduleLiveSolve();
+                          }}
+                          onKeyDown={onKeyDownSolve}
+                          disabled={mode === "magic" && magicLocks.major}
+                        />
+                      </div>
+                      <div className="mb-2">
+                        <Label className="mb-1 block">Minor axis ({units.length})</Label>
+                        <Input
+                          value={bufMinor}
+                          onChange={(e) => {
+                            setBufMinor(e.target.value);
+                            if (!liveMode) setStale(true);
+                            else scheduleLiveSolve();
+                          }}
+                          onKeyDown={onKeyDownSolve}
+                          disabled={mode === "magic" && magicLocks.minor}
+                        />
+                      </div>
+                    </>
+                  )}
+
+                  {shape === "rectangular" && (
+                    <>
+                      {/* Width */}
+                      <div className="mb-2">
+                        <Label className="mb-1 block">Width ({units.length})</Label>
+                        <Input
+                          value={bufWidth}
+                          onChange={(e) => {
+                            setBufWidth(e.target.value);
+                            if (!liveMode) setStale(true);
+                            else scheduleLiveSolve();
+                          }}
+                          onKeyDown={onKeyDownSolve}
+                          disabled={mode === "magic" && magicLocks.width}
+                        />
+                      </div>
 
-              {/* Flow + unit */}
-              <div className="mb-2">
-                <Label className="mb-1 block">Flow Rate</Label>
-                <div className="flex gap-2">
-                  <Input
-                    value={bufFlowInput}
-                    onChange={(e) => {
-                      setBufFlowInput(e.target.value);
-                      if (!liveMode) setStale(true);
-                      else scheduleLiveSolve();
-                    }}
-                    onKeyDown={onKeyDownSolve}
-                    disabled={mode === "magic" && magicLocks.flow}
-                  />
-                  <Select
-                    value={flowUnit}
-                    onValueChange={(v: "L/s" | "m³/s" | "m³/h") => {
-                      setFlowUnit(v);
-                      if (!liveMode) setStale(true);
-                      else scheduleLiveSolve();
-                    }}
-                  >
-                    <SelectTrigger className="w-[100px]">
-                      <SelectValue />
-                    </SelectTrigger>
-                    <SelectContent>
-                      <SelectItem value="L/s">L/s</SelectItem>
-                      <SelectItem value="m³/s">m³/s</SelectItem>
-                      <SelectItem value="m³/h">m³/h</SelectItem>
-                    </SelectContent>
-                  </Select>
-                </div>
-              </div>
+                      {/* Height */}
+                      <div className="mb-2">
+                        <Label className="mb-1 block">Height ({units.length})</Label>
+                        <Input
+                          value={bufHeight}
+                          onChange={(e) => {
+                            setBufHeight(e.target.value);
+                            if (!liveMode) setStale(true);
+                            else scheduleLiveSolve();
+                          }}
+                          onKeyDown={onKeyDownSolve}
+                          disabled={mode === "magic" && magicLocks.height}
+                        />
+                      </div>
 
-              {/* Velocity */}
-              <div className="mb-2">
-                <Label className="mb-1 block">Velocity (m/s)</Label>
-                <Input
-                  value={bufVelocity}
-                  onChange={(e) => {
-                    setBufVelocity(e.target.value);
-                    if (!liveMode) setStale(true);
-                    else scheduleLiveSolve();
-                  }}
-                  onKeyDown={onKeyDownSolve}
-                  disabled={mode === "magic" && magicLocks.velocity}
-                />
-              </div>
+                      {/* Aspect ratio: sizes both sides in Fixed Dim, lockable in Magic */}
+                      {(mode === "fixedDim" || mode === "magic") && (
+                        <div className="mb-2">
+                          <Label className="mb-1 block">Aspect ratio (W:H)</Label>
+                          <Input
+                            value={bufAspect}
+                            placeholder={mode === "fixedDim" ? "Leave width and height blank" : "e.g. 2"}
+                            onChange={(e) => {
+                              setBufAspect(e.target.value);
+                              if (!liveMode) setStale(true);
+                              else scheduleLiveSolve();
+                            }}
+                            onKeyDown={onKeyDownSolve}
+                            disabled={mode === "magic" && magicLocks.aspect}
+                          />
+                        </div>
+                      )}
+                    </>
+                  )}
+
+                  {/* Flow + unit */}
+                  <div className="mb-2">
+                    <Label className="mb-1 block">Flow Rate</Label>
+                    <div className="flex gap-2">
+                      <Input
+                        value={bufFlowInput}
+                        onChange={(e) => {
+                          setBufFlowInput(e.target.value);
+                          if (!liveMode) setStale(true);
+                          else scheduleLiveSolve();
+                        }}
+                        onKeyDown={onKeyDownSolve}
+                        disabled={mode === "magic" && magicLocks.flow}
+                      />
+                      <Select
+                        value={units.flow}
+                        onValueChange={(v: UnitPrefs["flow"]) => changeUnit("flow", v)}
+                      >
+                        <SelectTrigger className="w-[100px]">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {UNIT_OPTIONS.flow.map((u) => (
+                            <SelectItem key={u} value={u}>
+                              {u}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  </div>
 
-              {/* Target dp */}
-              <div className="mb-2">
-                <div className="mb-1 flex items-center gap-2">
-  <Label className="block">Target pressure drop (Pa/m)</Label>
-  <TooltipProvider>
-    <Tooltip>
-      <TooltipTrigger asChild>
-        <span className="inline-flex h-5 w-5 items-center justify-center rounded-full border text-xs text-slate-600 cursor-default">?</span>
-      </TooltipTrigger>
-      <TooltipContent side="top" className="max-w-xs">
-        <p>Used in Fixed Dim and Max Flow modes to size for a maximum Pa/m. Enter 0 if you�re constraining by velocity instead.</p>
-      </TooltipContent>
-    </Tooltip>
-  </TooltipProvider>
-</div>
-                <Input
-                  value={bufTargetDp}
-                  onChange={(e) => {
-                    setBufTargetDp(e.target.value);
-                    if (!liveMode) setStale(true);
-                    else scheduleLiveSolve();
-                  }}
-                  onKeyDown={onKeyDownSolve}
-                  disabled={mode === "magic" && magicLocks.dp}
-                />
-              </div>
+                  {/* Velocity */}
+                  <div className="mb-2">
+                    <Label className="mb-1 block">Velocity ({units.velocity})</Label>
+                    <Input
+                      value={bufVelocity}
+                      onChange={(e) => {
+                        setBufVelocity(e.target.value);
+                        if (!liveMode) setStale(true);
+                        else scheduleLiveSolve();
+                      }}
+                      onKeyDown={onKeyDownSolve}
+                      disabled={mode === "magic" && magicLocks.velocity}
+                    />
+                  </div>
 
-              {/* Buttons */}
-              <div className="mt-3 flex gap-2">
-                <Button onClick={applyBuffersToCalcAndSolve}>Solve</Button>
-                <Button variant="secondary" onClick={handleReset}>
-                  Reset
-                </Button>
-                <Button variant="ghost" onClick={handleExportCSV}>
-                  Export CSV
-                </Button>
-                <Button variant="ghost" onClick={handleScreenshot}>
-                  Screenshot
-                </Button>
-              </div>
+                  {/* Target dp */}
+                  <div className="mb-2">
+                    <div className="mb-1 flex items-center gap-2">
+      <Label className="block">Target pressure drop ({units.dp})</Label>
+      <TooltipProvider>
+        <Tooltip>
+          <TooltipTrigger asChild>
+            <span className="inline-flex h-5 w-5 items-center justify-center rounded-full border text-xs text-slate-600 cursor-default">?</span>
+          </TooltipTrigger>
+          <TooltipContent side="top" className="max-w-xs">
+            <p>Used in Fixed Dim and Max Flow modes to size for a maximum Pa/m. Enter 0 if you�re constraining by velocity instead.</p>
+          </TooltipContent>
+        </Tooltip>
+      </TooltipProvider>
+    </div>
+                    <Input
+                      value={bufTargetDp}
+                      onChange={(e) => {
+                        setBufTargetDp(e.target.value);
+                        if (!liveMode) setStale(true);
+                        else scheduleLiveSolve();
+                      }}
+                      onKeyDown={onKeyDownSolve}
+                      disabled={mode === "magic" && magicLocks.dp}
+                    />
+                  </div>
 
-              {/* Warnings */}
-              {!!warnings.length && (
-                <div className="mt-3 space-y-2">
-                  {warnings.map((w, i) => (
-                    <div
-                      key={i}
-                      className="rounded border-l-4 border-amber-400 bg-amber-50 p-2 text-sm text-amber-800"
-                    >
-                      {w}
+                  {/* Buttons */}
+                  <div className="mt-3 flex gap-2">
+                    <Button onClick={applyBuffersToCalcAndSolve}>Solve</Button>
+                    <Button variant="secondary" onClick={handleReset}>
+                      Reset
+                    </Button>
+                    <Button variant="ghost" onClick={handleExportCSV}>
+                      Export CSV
+                    </Button>
+                    <Button variant="ghost" onClick={handleScreenshot}>
+                      Screenshot
+                    </Button>
+                  </div>
+
+                  {/* Warnings */}
+                  {!!allWarnings.length && (
+                    <div className="mt-3 space-y-2">
+                      {allWarnings.map((w, i) => (
+                        <div
+                          key={i}
+                          className="rounded border-l-4 border-amber-400 bg-amber-50 p-2 text-sm text-amber-800"
+                        >
+                          {w}
+                        </div>
+                      ))}
                     </div>
-                  ))}
+                  )}
                 </div>
-              )}
-            </div>
 
-            {/* Right: Magic locks + Results */}
-            <div>
-              {mode === "magic" && (
-                <div className="mb-4 rounded border p-3">
-                  <div className="mb-2 flex items-center justify-between">
-                    <div className="text-sm font-medium">Magic Mode locks</div>
-                    <div className="text-xs text-slate-500">
-                      Lock a value to keep it fixed during solve
+                {/* Right: Magic locks + Results */}
+                <div>
+                  {mode === "magic" && (
+                    <div className="mb-4 rounded border p-3">
+                      <div className="mb-2 flex items-center justify-between">
+                        <div className="text-sm font-medium">Magic Mode locks</div>
+                        <div className="text-xs text-slate-500">
+                          Lock a value to keep it fixed during solve
+                        </div>
+                      </div>
+                      <div className="grid gap-2">
+                        {MAGIC_LOCK_KEYS[shape].map((key) => (
+                          <div key={key} className="flex items-center justify-between gap-2">
+                            <div className="flex-1 text-sm">
+                              {MAGIC_LOCK_FIELDS[key].label}
+                              {MAGIC_LOCK_FIELDS[key].q && ` (${units[MAGIC_LOCK_FIELDS[key].q]})`}
+                            </div>
+                            <label className="inline-flex items-center gap-2 text-xs">
+                              <input
+                                type="checkbox"
+                                checked={magicLocks[key]}
+                                onChange={() => toggleMagicLock(key)}
+                              />
+                              <span>Locked</span>
+                            </label>
+                          </div>
+                        ))}
+                      </div>
+                      <div className={cn("mt-2 text-xs", dof.message ? "text-amber-700" : "text-emerald-700")}>
+                        {dof.message ?? "Fully constrained — ready to solve."}
+                      </div>
                     </div>
-                  </div>
-                  <div className="grid gap-2">
-                    {[
-                      { key: "flow", label: "Flow (m³/s)" },
-                      { key: "width", label: "Width (mm)" },
-                      { key: "height", label: "Height (mm)" },
-                      { key: "velocity", label: "Velocity (m/s)" },
-                      { key: "dp", label: "Pressure drop (Pa/m)" },
-                    ].map((it) => (
-                      <div key={it.key} className="flex items-center justify-between gap-2">
-                        <div className="flex-1 text-sm">{it.label}</div>
-                        <label className="inline-flex items-center gap-2 text-xs">
-                          <input
-                            type="checkbox"
-                            checked={(magicLocks as any)[it.key]}
-                            onChange={() => setMagicLocks((s) => ({ ...s, [it.key]: !s[it.key] }))}
-                          />
-                          <span>Locked</span>
-                        </label>
+                  )}
+
+                  <div className={cn("rounded p-4", stale ? "bg-yellow-100" : "bg-white")}>
+      <div className="mb-2 flex items-center gap-2">
+        <h4 className="font-medium">Results</h4>
+        <Badge variant="secondary" className="uppercase">{mode}</Badge>
+        {stale && <Badge variant="destructive" className="ml-auto">Stale</Badge>}
+      </div>
+                    {!results && (
+                      <div className="text-sm text-slate-500">
+                        No results yet — press Solve or use Live mode.
                       </div>
-                    ))}
+                    )}
+
+                    {results?.mode === "pressureDrop" && (
+                      <div className="space-y-1 text-sm">
+                        <Row label="Hydraulic diameter" value={show("length", results.hydraulicDiameter_m * 1000)} />
+                        <Row
+                          label="Equivalent diameter (equal friction)"
+                          value={show("length", results.eqDiameter_m * 1000)}
+                        />
+                        <Row label="Average velocity" value={show("velocity", results.averageVelocity)} />
+                        <Row
+                          label="Effective velocity"
+                          value={show("velocity", results.effectiveVelocity ?? results.averageVelocity)}
+                        />
+                        <Row label="Pressure drop" value={show("dp", results.dp_per_m)} />
+                        <Row label="Velocity pressure" value={show("pressure", results.velocityPressure)} />
+                        <Row label="Reynolds number" value={fmt(results.reynolds, 0)} />
+                        <Row label="Friction factor" value={fmt(results.frictionFactor, 5)} />
+                      </div>
+                    )}
+
+                    {results?.mode === "fixedDim" && (
+                      <div className="space-y-1 text-sm">
+                        <SectionRows section={results} lengthUnit={units.length} />
+                        <Row label="Computed pressure drop" value={show("dp", results.dp_per_m)} />
+                      </div>
+                    )}
+
+                    {results?.mode === "maxFlow" && (
+                      <div className="space-y-1 text-sm">
+                        <SectionRows section={results} lengthUnit={units.length} />
+                        <Row label="Max flow" value={show("flow", results.maxFlow_m3s ?? 0)} />
+                      </div>
+                    )}
+
+                    {results?.mode === "magic" && (
+                      <div className="space-y-1 text-sm">
+                        <SectionRows section={results} lengthUnit={units.length} />
+                        <Row label="Flow" value={show("flow", results.flow_m3s)} />
+                        <Row label="Velocity" value={show("velocity", results.velocity)} />
+                        <Row label="Pressure drop" value={show("dp", results.dp_per_m)} />
+                        <table className="mt-2 w-full">
+                          <thead>
+                            <tr className="text-left text-slate-500">
+                              <th className="py-1 font-normal">Locked</th>
+                              <th className="py-1 font-normal">Target</th>
+                              <th className="py-1 font-normal">Achieved</th>
+                              <th className="py-1 text-right font-normal">Residual</th>
+                            </tr>
+                          </thead>
+                          <tbody>
+                            {results.magicResiduals.map((r) => {
+                              const q = MAGIC_LOCK_FIELDS[r.field].q;
+                              const val = (v: number) => (q ? show(q, v) : fmt(v, 2));
+                              return (
+                                <tr key={r.field} className="border-t">
+                                  <td className="py-1">{MAGIC_LOCK_FIELDS[r.field].label}</td>
+                                  <td className="py-1">{val(r.target)}</td>
+                                  <td className="py-1">{val(r.achieved)}</td>
+                                  <td
+                                    className={cn(
+                                      "py-1 text-right",
+                                      Math.abs(r.relative) > 1e-3 && "font-medium text-red-700"
+                                    )}
+                                  >
+                                    {(r.relative * 100).toFixed(3)} %
+                                  </td>
+                                </tr>
+                              );
+                            })}
+                          </tbody>
+                        </table>
+                        <div className="text-xs text-slate-500">
+                          {results.converged ? "All locks satisfied" : "Locks not all satisfied"} — RMS residual{" "}
+                          {(results.rmsResidual * 100).toFixed(3)} % after {results.iterations} iteration(s).
+                        </div>
+                      </div>
+                    )}
+
+                    {(results?.mode === "fixedDim" || results?.mode === "magic") && solvedInputs && (
+                      <StandardSize
+                        section={results}
+                        flow_m3s={resultFlow_m3s(results)}
+                        conditions={solvedInputs}
+                        units={units}
+                        settings={standardSize}
+                        onSettingsChange={(patch) => setStandardSize((st) => ({ ...st, ...patch }))}
+                      />
+                    )}
+
+                    {results && solvedInputs && (
+                      <>
+                        <Separator className="my-2" />
+                        <div className="space-y-1 text-sm">
+                          <Row label="Barometric pressure" value={show("barometric", results.barometricPressure)} />
+                          <Row label="Air density" value={show("density", results.airDensity)} />
+                          <Row label="Dynamic viscosity" value={show("viscosity", results.airViscosity)} />
+                        </div>
+                        <div className="mt-2 text-xs text-slate-500">
+                          Friction model: {FRICTION_MODELS[results.frictionModel]}
+                        </div>
+                        <Psychrometrics
+                          conditions={solvedInputs}
+                          flow_m3s={resultFlow_m3s(results)}
+                          units={units}
+                        />
+                      </>
+                    )}
+
+                    {stale && (
+                      <div className="mt-2 text-xs text-yellow-800">Results are stale — press Solve.</div>
+                    )}
                   </div>
                 </div>
+              </div>
+
+              {results && solvedInputs && (
+                <div className="mt-4">
+                  <DuctRun
+                    section={results}
+                    flow_m3s={resultFlow_m3s(results)}
+                    conditions={solvedInputs}
+                    units={units}
+                  />
+                </div>
               )}
 
-              <div className={cn("rounded p-4", stale ? "bg-yellow-100" : "bg-white")}>
-  <div className="mb-2 flex items-center gap-2">
-    <h4 className="font-medium">Results</h4>
-    <Badge variant="secondary" className="uppercase">{mode}</Badge>
-    {stale && <Badge variant="destructive" className="ml-auto">Stale</Badge>}
-  </div>
-                {!results && (
-                  <div className="text-sm text-slate-500">
-                    No results yet — press Solve or use Live mode.
-                  </div>
-                )}
-
-                {results?.mode === "pressureDrop" && (
-                  <div className="space-y-1 text-sm">
-                    <Row
-                      label="Equivalent diameter"
-                      value={`${fmt(
-                        results.eqDiameter_m ? results.eqDiameter_m * 1000 : results.eqDiameter_m,
-                        1
-                      )} mm`}
-                    />
-                    <Row label="Average velocity" value={`${fmt(results.averageVelocity, 3)} m/s`} />
-                    <Row
-                      label="Effective velocity"
-                      value={`${fmt(results.effectiveVelocity ?? results.averageVelocity, 3)} m/s`}
-                    />
-                    <Row label="Pressure drop" value={`${fmt(results.dp_per_m, 4)} Pa/m`} />
-                    <Row label="Velocity pressure" value={`${fmt(results.velocityPressure, 3)} Pa`} />
-                  </div>
-                )}
+              {results && solvedInputs && (
+                <div className="mt-4">
+                  <FrictionChart
+                    section={results}
+                    flow_m3s={resultFlow_m3s(results)}
+                    conditions={solvedInputs}
+                    units={units}
+                    onPick={pickChartPoint}
+                  />
+                </div>
+              )}
 
-                {results?.mode === "fixedDim" && (
-                  <div className="space-y-1 text-sm">
-                    <Row label="Width" value={`${fmt(results.width_mm, 1)} mm`} />
-                    <Row label="Height" value={`${fmt(results.height_mm, 1)} mm`} />
-                    <Row label="Computed pressure drop" value={`${fmt(results.dp_per_m, 4)} Pa/m`} />
-                  </div>
-                )}
-
-                {results?.mode === "maxFlow" && (
-                  <div className="space-y-1 text-sm">
-                    <Row label="Width" value={`${fmt(results.width_mm, 1)} mm`} />
-                    <Row label="Height" value={`${fmt(results.height_mm, 1)} mm`} />
-                    <Row label="Max flow (m³/s)" value={`${fmt(results.maxFlow_m3s, 6)}`} />
-                    <Row label="Max flow (L/s)" value={`${fmt((results.maxFlow_m3s || 0) * 1000, 3)}`} />
-                  </div>
-                )}
-
-                {results?.mode === "magic" && (
-                  <div className="space-y-1 text-sm">
-                    <Row label="Width" value={`${fmt(results.width_mm, 1)} mm`} />
-                    <Row label="Height" value={`${fmt(results.height_mm, 1)} mm`} />
-                    <Row label="Flow" value={`${fmt(results.flow_m3s, 6)} m³/s`} />
-                    <Row label="Velocity" value={`${fmt(results.velocity, 3)} m/s`} />
-                    <Row label="Pressure drop" value={`${fmt(results.dp_per_m, 4)} Pa/m`} />
-                  </div>
-                )}
+              {results && solvedInputs && (
+                <div className="mt-4">
+                  <Sweep inputs={solvedInputs} units={units} />
+                </div>
+              )}
 
-                {stale && (
-                  <div className="mt-2 text-xs text-yellow-800">Results are stale — press Solve.</div>
-                )}
+              <div className="mt-4">
+                <ScenarioCompare
+                  scenarios={scenarios}
+                  onChange={setScenarios}
+                  current={
+                    results && solvedInputs && !stale
+                      ? {
+                          section: results,
+                          flow_m3s: resultFlow_m3s(results),
+                          conditions: solvedInputs,
+                          profile: solvedProfile,
+                          query: solvedQuery,
+                        }
+                      : null
+                  }
+                  onOpen={openCalcQuery}
+                  units={units}
+                />
               </div>
-            </div>
+            </>
+          )}
+
+          <div className="mt-4">
+            <EquivalentDiameter units={units} />
           </div>
 
           <div className="mt-4 text-xs text-slate-600">
-            Notes: Darcy–Weisbach with Haaland friction factor. Air properties derived from T & RH.
-            Magic solver uses simple coordinate descent. Flow units support L/s, m³/s, m³/h.
+            Notes: Darcy–Weisbach with the selected friction factor, blended smoothly from laminar
+            between Re 2300 and 4000. Air properties derived from T, RH and site
+            pressure (standard atmosphere for altitude).
+            Magic solver uses Levenberg–Marquardt least squares with a degrees-of-freedom check.
+            Rectangular, round and flat-oval sections.
+            SI or IP units with per-quantity overrides; solving is always done in SI.
           </div>
         </CardContent>
       </Card>
@@ -0,0 +1,93 @@
+"use client";
+
+import React, { useState } from "react";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  EQUIVALENT_ASPECT_RATIOS,
+  convertUnit,
+  convertUnitText,
+  formatQuantity,
+  huebscherDiameter,
+  rectForRoundDiameter,
+  safeNum,
+  toSI,
+  type UnitPrefs,
+} from "@/lib/ductulator";
+import { useUnitChange } from "@/hooks/use-unit-change";
+
+// Round ↔ rectangular equal-friction equivalents (Huebscher), in units.length
+export default function EquivalentDiameter({ units }: { units: UnitPrefs }) {
+  const len0 = (mm: number) => String(convertUnit("length", mm, "mm", units.length));
+  const [bufDiameter, setBufDiameter] = useState<string>(() => len0(300));
+  const [bufWidth, setBufWidth] = useState<string>(() => len0(400));
+  const [bufHeight, setBufHeight] = useState<string>(() => len0(200));
+
+  useUnitChange(units, (from, to) => {
+    const conv = (b: string) => convertUnitText("length", b, from.length, to.length);
+    setBufDiameter(conv);
+    setBufWidth(conv);
+    setBufHeight(conv);
+  });
+
+  const mm = (b: string) => toSI("length", safeNum(b, 0), units.length);
+  const d_mm = mm(bufDiameter);
+  const rectDe_mm = huebscherDiameter(mm(bufWidth), mm(bufHeight));
+  const len = (v: number | undefined) => formatQuantity("length", v, units.length);
+
+  return (
+    <div className="rounded border p-3">
+      <div className="mb-1 text-sm font-medium">Round ↔ rectangular equivalent</div>
+      <div className="mb-3 text-xs text-slate-500">Equal friction loss at equal flow (Huebscher)</div>
+
+      <div className="grid gap-4 md:grid-cols-2">
+        {/* Round -> rectangular */}
+        <div>
+          <div className="mb-2">
+            <Label className="mb-1 block">Round diameter ({units.length})</Label>
+            <Input value={bufDiameter} onChange={(e) => setBufDiameter(e.target.value)} />
+          </div>
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-slate-500">
+                <th className="py-1 font-normal">Aspect ratio</th>
+                <th className="py-1 font-normal">Width</th>
+                <th className="py-1 font-normal">Height</th>
+              </tr>
+            </thead>
+            <tbody>
+              {EQUIVALENT_ASPECT_RATIOS.map((r) => {
+                const rect = rectForRoundDiameter(d_mm, r);
+                return (
+                  <tr key={r} className="border-t">
+                    <td className="py-1">{r}:1</td>
+                    <td className="py-1 font-medium">{len(rect?.width_mm)}</td>
+                    <td className="py-1 font-medium">{len(rect?.height_mm)}</td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+
+        {/* Rectangular -> round */}
+        <div>
+          <div className="mb-2 grid grid-cols-2 gap-2">
+            <div>
+              <Label className="mb-1 block">Width ({units.length})</Label>
+              <Input value={bufWidth} onChange={(e) => setBufWidth(e.target.value)} />
+            </div>
+            <div>
+              <Label className="mb-1 block">Height ({units.length})</Label>
+              <Input value={bufHeight} onChange={(e) => setBufHeight(e.target.value)} />
+            </div>
+          </div>
+          <div className="flex items-center justify-between py-1 text-sm">
+            <span>Equivalent round diameter</span>
+            <span className="font-medium">{rectDe_mm > 0 ? len(rectDe_mm) : "—"}</span>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
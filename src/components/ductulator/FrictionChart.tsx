@@ -0,0 +1,225 @@
+"use client";
+
+import React, { useMemo, useState } from "react";
+import {
+  calcSectionNums,
+  chartRangeFor,
+  diameterLines,
+  formatQuantity,
+  fromSI,
+  toSI,
+  velocityLines,
+  type ChartLine,
+  type ChartPoint,
+  type DuctConditions,
+  type DuctSection,
+  type UnitPrefs,
+} from "@/lib/ductulator";
+
+// Line values that read naturally in each unit, converted to SI for the chart
+const DIAMETERS_MM = [100, 150, 200, 250, 300, 400, 500, 630, 800, 1000, 1250, 1600, 2000];
+const DIAMETERS_IN = [4, 6, 8, 10, 12, 16, 20, 24, 30, 36, 48, 60, 72, 84];
+const VELOCITIES_MS = [1, 2, 3, 4, 6, 8, 10, 15, 20, 30];
+const VELOCITIES_FPM = [200, 400, 600, 800, 1000, 1500, 2000, 3000, 4000, 6000];
+
+const W = 640;
+const H = 420;
+const PAD = { left: 56, right: 16, top: 12, bottom: 40 };
+
+const lerpLog = (v: number, [lo, hi]: [number, number]) => Math.log(v / lo) / Math.log(hi / lo);
+
+// 1, 2, 5 × 10ⁿ between lo and hi
+function ticks(lo: number, hi: number) {
+  const out: number[] = [];
+  for (let e = Math.floor(Math.log10(lo)); e <= Math.ceil(Math.log10(hi)); e++) {
+    for (const m of [1, 2, 5]) {
+      const v = m * Math.pow(10, e);
+      if (v >= lo * 0.999 && v <= hi * 1.001) out.push(v);
+    }
+  }
+  return out;
+}
+
+const tickLabel = (v: number) => (v >= 1000 ? v.toExponential(0).replace("e+", "e") : String(Number(v.toPrecision(3))));
+
+/**
+ * Friction chart for the current material and air: Pa/m against flow with
+ * lines of constant equivalent diameter and velocity. The present solution is
+ * marked; clicking anywhere on the chart picks that flow and friction rate.
+ */
+export default function FrictionChart({
+  section,
+  flow_m3s,
+  conditions,
+  units,
+  onPick,
+}: {
+  section: DuctSection;
+  flow_m3s: number;
+  conditions: DuctConditions;
+  units: UnitPrefs;
+  onPick: (point: ChartPoint) => void;
+}) {
+  const [hover, setHover] = useState<ChartPoint | null>(null);
+
+  const calc = calcSectionNums(section, flow_m3s, conditions);
+  const point: ChartPoint | null = flow_m3s > 0 && Number.isFinite(calc.dp_per_m) ? { Q: flow_m3s, dp: calc.dp_per_m } : null;
+  const range = chartRangeFor(point);
+
+  const imperial = units.length === "in" || units.length === "ft";
+  const fpm = units.velocity === "fpm";
+
+  // Lines only change with the air, material, units or range, not while hovering
+  const { temperature, rh, pressure, material, roughness, frictionModel } = conditions;
+  const [q0, q1] = range.flow;
+  const [d0, d1] = range.dp;
+  const lines = useMemo(() => {
+    const c = { temperature, rh, pressure, material, roughness, frictionModel };
+    const r = { flow: [q0, q1] as [number, number], dp: [d0, d1] as [number, number] };
+    const diameters = imperial ? DIAMETERS_IN.map((d) => toSI("length", d, "in")) : DIAMETERS_MM;
+    const velocities = fpm ? VELOCITIES_FPM.map((v) => toSI("velocity", v, "fpm")) : VELOCITIES_MS;
+    return { diameters: diameterLines(diameters, c, r), velocities: velocityLines(velocities, c, r) };
+  }, [temperature, rh, pressure, material, roughness, frictionModel, imperial, fpm, q0, q1, d0, d1]);
+
+  const plotW = W - PAD.left - PAD.right;
+  const plotH = H - PAD.top - PAD.bottom;
+  const x = (Q: number) => PAD.left + lerpLog(Q, range.flow) * plotW;
+  const y = (dp: number) => PAD.top + (1 - lerpLog(dp, range.dp)) * plotH;
+  const path = (line: ChartLine) => line.points.map((p, i) => `${i ? "L" : "M"}${x(p.Q).toFixed(1)},${y(p.dp).toFixed(1)}`).join("");
+
+  // Pointer position in chart values, or null outside the plot
+  const pointAt = (e: React.MouseEvent<SVGSVGElement>): ChartPoint | null => {
+    const box = e.currentTarget.getBoundingClientRect();
+    const px = ((e.clientX - box.left) / box.width) * W;
+    const py = ((e.clientY - box.top) / box.height) * H;
+    const fx = (px - PAD.left) / plotW;
+    const fy = 1 - (py - PAD.top) / plotH;
+    if (fx < 0 || fx > 1 || fy < 0 || fy > 1) return null;
+    return { Q: q0 * Math.pow(q1 / q0, fx), dp: d0 * Math.pow(d1 / d0, fy) };
+  };
+
+  // Gridlines at round numbers of the display units
+  const flowTicks = ticks(fromSI("flow", range.flow[0], units.flow), fromSI("flow", range.flow[1], units.flow));
+  const dpTicks = ticks(fromSI("dp", range.dp[0], units.dp), fromSI("dp", range.dp[1], units.dp));
+
+  const lineLabel = (mm: number) => (imperial ? formatQuantity("length", mm, "in", 0) : formatQuantity("length", mm, "mm", 0));
+  const describe = (p: ChartPoint) => `${formatQuantity("flow", p.Q, units.flow)} at ${formatQuantity("dp", p.dp, units.dp)}`;
+
+  return (
+    <div className="rounded border p-3 text-sm">
+      <div className="mb-2 flex flex-wrap items-center gap-2">
+        <span className="font-medium">Friction chart</span>
+        <span className="text-xs text-slate-500">
+          {material}, {formatQuantity("temperature", temperature, units.temperature)} — click to pick a flow and friction rate
+        </span>
+      </div>
+      <svg
+        viewBox={`0 0 ${W} ${H}`}
+        className="h-auto w-full max-w-[720px] cursor-crosshair select-none"
+        role="img"
+        aria-label="Friction chart"
+        onMouseMove={(e) => setHover(pointAt(e))}
+        onMouseLeave={() => setHover(null)}
+        onClick={(e) => {
+          const p = pointAt(e);
+          if (p) onPick(p);
+        }}
+      >
+        <defs>
+          <clipPath id="friction-chart-plot">
+            <rect x={PAD.left} y={PAD.top} width={plotW} height={plotH} />
+          </clipPath>
+        </defs>
+        <rect x={PAD.left} y={PAD.top} width={plotW} height={plotH} fill="white" stroke="#cbd5e1" />
+
+        {flowTicks.map((t) => {
+          const tx = x(toSI("flow", t, units.flow));
+          return (
+            <g key={`q${t}`}>
+              <line x1={tx} x2={tx} y1={PAD.top} y2={PAD.top + plotH} stroke="#f1f5f9" />
+              <text x={tx} y={H - PAD.bottom + 14} fontSize={10} textAnchor="middle" fill="#64748b">
+                {tickLabel(t)}
+              </text>
+            </g>
+          );
+        })}
+        {dpTicks.map((t) => {
+          const ty = y(toSI("dp", t, units.dp));
+          return (
+            <g key={`dp${t}`}>
+              <line x1={PAD.left} x2={PAD.left + plotW} y1={ty} y2={ty} stroke="#f1f5f9" />
+              <text x={PAD.left - 6} y={ty + 3} fontSize={10} textAnchor="end" fill="#64748b">
+                {tickLabel(t)}
+              </text>
+            </g>
+          );
+        })}
+        <text x={PAD.left + plotW / 2} y={H - 6} fontSize={11} textAnchor="middle" fill="#334155">
+          Flow ({units.flow})
+        </text>
+        <text
+          x={12}
+          y={PAD.top + plotH / 2}
+          fontSize={11}
+          textAnchor="middle"
+          fill="#334155"
+          transform={`rotate(-90 12 ${PAD.top + plotH / 2})`}
+        >
+          Friction ({units.dp})
+        </text>
+
+        <g clipPath="url(#friction-chart-plot)">
+          {lines.velocities.map((l) => (
+            <path key={`v${l.value}`} d={path(l)} fill="none" stroke="#f59e0b" strokeWidth={0.8} strokeDasharray="4 3" />
+          ))}
+          {lines.diameters.map((l) => (
+            <path key={`d${l.value}`} d={path(l)} fill="none" stroke="#0f766e" strokeWidth={0.9} />
+          ))}
+          {lines.velocities.map((l) => {
+            const p = l.points[Math.floor(l.points.length / 2)];
+            return (
+              p && (
+                <text key={`vl${l.value}`} x={x(p.Q) + 3} y={y(p.dp) - 3} fontSize={9} fill="#b45309">
+                  {formatQuantity("velocity", l.value, units.velocity, 0)}
+                </text>
+              )
+            );
+          })}
+          {lines.diameters.map((l) => {
+            const p = l.points[l.points.length - 1];
+            return (
+              p && (
+                <text key={`dl${l.value}`} x={x(p.Q) - 2} y={y(p.dp) + 10} fontSize={9} textAnchor="end" fill="#0f766e">
+                  {lineLabel(l.value)}
+                </text>
+              )
+            );
+          })}
+
+          {hover && (
+            <g pointerEvents="none">
+              <line x1={x(hover.Q)} x2={x(hover.Q)} y1={PAD.top} y2={PAD.top + plotH} stroke="#94a3b8" strokeDasharray="2 2" />
+              <line x1={PAD.left} x2={PAD.left + plotW} y1={y(hover.dp)} y2={y(hover.dp)} stroke="#94a3b8" strokeDasharray="2 2" />
+            </g>
+          )}
+          {point && (
+            <circle cx={x(point.Q)} cy={y(point.dp)} r={5} fill="#dc2626" stroke="white" strokeWidth={1.5}>
+              <title>Current solution: {describe(point)}</title>
+            </circle>
+          )}
+        </g>
+      </svg>
+      <div className="mt-1 flex flex-wrap gap-x-4 text-xs text-slate-500">
+        <span className="text-teal-700">— equivalent diameter</span>
+        <span className="text-amber-700">- - velocity (round duct)</span>
+        {point && (
+          <span>
+            <span className="text-red-600">●</span> {describe(point)}, {formatQuantity("length", calc.eqDiameter * 1000, units.length)} eq.,{" "}
+            {formatQuantity("velocity", calc.V, units.velocity)}
+          </span>
+        )}
+        {hover && <span className="ml-auto">{describe(hover)}</span>}
+      </div>
+    </div>
+  );
+}
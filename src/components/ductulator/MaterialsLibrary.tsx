@@ -0,0 +1,140 @@
+"use client";
+
+import React, { useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { downloadText } from "@/components/ductulator/csv";
+import {
+  convertUnitText,
+  formatQuantity,
+  materialError,
+  materialLibraryToJSON,
+  parseMaterialLibrary,
+  safeNum,
+  toSI,
+  type MaterialLibrary,
+  type UnitPrefs,
+} from "@/lib/ductulator";
+import { useUnitChange } from "@/hooks/use-unit-change";
+
+/**
+ * The user's own duct materials: add, replace or remove entries and share the
+ * list as a JSON file. Built-in materials are not editable.
+ */
+export default function MaterialsLibrary({
+  library,
+  onChange,
+  units,
+}: {
+  library: MaterialLibrary;
+  onChange: (next: MaterialLibrary) => void;
+  units: UnitPrefs;
+}) {
+  const [name, setName] = useState("");
+  const [bufRoughness, setBufRoughness] = useState(""); // units.length
+  const [messages, setMessages] = useState<string[]>([]);
+  const fileRef = useRef<HTMLInputElement | null>(null);
+
+  useUnitChange(units, (from, to) =>
+    setBufRoughness((b) => convertUnitText("length", b, from.length, to.length))
+  );
+
+  const addMaterial = () => {
+    const roughness_m = toSI("length", safeNum(bufRoughness, NaN), units.length) / 1000;
+    const error = materialError(name.trim(), roughness_m);
+    if (error) {
+      setMessages([error]);
+      return;
+    }
+    onChange({ ...library, [name.trim()]: roughness_m });
+    setName("");
+    setBufRoughness("");
+    setMessages([]);
+  };
+
+  const removeMaterial = (key: string) => {
+    const next = { ...library };
+    delete next[key];
+    onChange(next);
+  };
+
+  // Imported entries replace ones with the same name; the rest are kept
+  const importFile = async (file: File) => {
+    const { materials, errors } = parseMaterialLibrary(await file.text());
+    const count = Object.keys(materials).length;
+    if (count) onChange({ ...library, ...materials });
+    setMessages([`Imported ${count} material(s) from ${file.name}.`, ...errors]);
+  };
+
+  return (
+    <div className="mb-3 rounded border p-3 text-sm">
+      <div className="mb-2 flex flex-wrap items-center gap-2">
+        <span className="font-medium">My materials</span>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="ml-auto"
+          onClick={() => downloadText("ductulator-materials.json", materialLibraryToJSON(library), "application/json")}
+        >
+          Export JSON
+        </Button>
+        <Button variant="ghost" size="sm" onClick={() => fileRef.current?.click()}>
+          Import JSON
+        </Button>
+        <input
+          ref={fileRef}
+          type="file"
+          accept="application/json,.json"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) void importFile(file);
+            e.target.value = "";
+          }}
+        />
+      </div>
+
+      {Object.keys(library).length ? (
+        <table className="mb-2 w-full">
+          <tbody>
+            {Object.entries(library).map(([key, roughness_m]) => (
+              <tr key={key} className="border-t">
+                <td className="py-1">{key}</td>
+                <td className="py-1 text-right">
+                  {formatQuantity("length", roughness_m * 1000, units.length, 4)}
+                </td>
+                <td className="py-1 text-right">
+                  <Button variant="ghost" size="sm" onClick={() => removeMaterial(key)}>
+                    Remove
+                  </Button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      ) : (
+        <div className="mb-2 text-xs text-slate-500">No materials of your own yet.</div>
+      )}
+
+      <div className="flex flex-wrap items-end gap-2">
+        <div>
+          <Label className="mb-1 block text-xs">Name</Label>
+          <Input className="w-[200px]" value={name} onChange={(e) => setName(e.target.value)} />
+        </div>
+        <div>
+          <Label className="mb-1 block text-xs">Absolute roughness ({units.length})</Label>
+          <Input className="w-[120px]" value={bufRoughness} onChange={(e) => setBufRoughness(e.target.value)} />
+        </div>
+        <Button variant="secondary" onClick={addMaterial}>
+          {Object.hasOwn(library, name.trim()) ? "Replace" : "Add"}
+        </Button>
+      </div>
+      {messages.map((m, i) => (
+        <div key={i} className="mt-2 text-xs text-slate-600">
+          {m}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,315 @@
+"use client";
+
+import React, { useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectTrigger,
+  SelectValue,
+  SelectContent,
+  SelectItem,
+} from "@/components/ui/select";
+import { cn } from "@/lib/utils";
+import {
+  convertUnit,
+  convertUnitText,
+  evaluateNetwork,
+  formatQuantity,
+  safeNum,
+  toSI,
+  type DuctConditions,
+  type DuctSection,
+  type DuctShape,
+  type NetworkSegment,
+  type UnitPrefs,
+} from "@/lib/ductulator";
+import { useUnitChange } from "@/hooks/use-unit-change";
+
+// Editable segment, kept as typed in the current units. parentId "" = fan.
+// dim1/dim2 are width/height, diameter/– or major/minor depending on shape.
+type SegmentRow = {
+  id: string;
+  parentId: string;
+  name: string;
+  length: string;
+  flow: string;
+  shape: DuctShape;
+  dim1: string;
+  dim2: string;
+  k: string;
+};
+
+const FAN = "__fan__";
+
+// Example supply system (SI: m, L/s, mm)
+const EXAMPLE: Omit<SegmentRow, "length" | "flow" | "dim1" | "dim2">[] = [
+  { id: "s1", parentId: "", name: "Fan main", shape: "rectangular", k: "1.5" },
+  { id: "s2", parentId: "s1", name: "Main A", shape: "rectangular", k: "0.5" },
+  { id: "s3", parentId: "s2", name: "Branch A1", shape: "rectangular", k: "1.2" },
+  { id: "s4", parentId: "s2", name: "Branch A2", shape: "round", k: "1.5" },
+  { id: "s5", parentId: "s1", name: "Branch B1", shape: "rectangular", k: "1.2" },
+];
+const EXAMPLE_SI: Record<string, [number, number, number, number]> = {
+  s1: [15, 1000, 600, 400],
+  s2: [10, 600, 500, 300],
+  s3: [8, 300, 300, 250],
+  s4: [12, 300, 315, 0],
+  s5: [6, 400, 400, 250],
+};
+
+function exampleRows(units: UnitPrefs): SegmentRow[] {
+  const len = (mm: number) => (mm ? String(convertUnit("length", mm, "mm", units.length)) : "");
+  return EXAMPLE.map((r) => {
+    const [L, Q, d1, d2] = EXAMPLE_SI[r.id];
+    return {
+      ...r,
+      length: String(convertUnit("distance", L, "m", units.distance)),
+      flow: String(convertUnit("flow", Q, "L/s", units.flow)),
+      dim1: len(d1),
+      dim2: len(d2),
+    };
+  });
+}
+
+function rowSection(r: SegmentRow, units: UnitPrefs): DuctSection {
+  const mm = (v: string) => toSI("length", safeNum(v, 0), units.length);
+  if (r.shape === "round") return { shape: "round", diameter_mm: mm(r.dim1) };
+  if (r.shape === "flatOval") return { shape: "flatOval", major_mm: mm(r.dim1), minor_mm: mm(r.dim2) };
+  return { shape: "rectangular", width_mm: mm(r.dim1), height_mm: mm(r.dim2) };
+}
+
+function rowSegment(r: SegmentRow, units: UnitPrefs): NetworkSegment {
+  return {
+    id: r.id,
+    parentId: r.parentId || null,
+    name: r.name || r.id,
+    length_m: toSI("distance", safeNum(r.length, 0), units.distance),
+    flow_m3s: toSI("flow", safeNum(r.flow, 0), units.flow),
+    section: rowSection(r, units),
+    fittingsK: safeNum(r.k, 0),
+  };
+}
+
+/**
+ * Tree of duct segments from the fan to the terminals, with cumulative
+ * pressure to every terminal and the index (critical) path highlighted.
+ */
+export default function NetworkEditor({
+  conditions,
+  units,
+}: {
+  conditions: DuctConditions;
+  units: UnitPrefs;
+}) {
+  const [rows, setRows] = useState<SegmentRow[]>(() => exampleRows(units));
+  const nextId = useRef(EXAMPLE.length + 1);
+
+  useUnitChange(units, (from, to) =>
+    setRows((rs) =>
+      rs.map((r) => ({
+        ...r,
+        length: convertUnitText("distance", r.length, from.distance, to.distance),
+        flow: convertUnitText("flow", r.flow, from.flow, to.flow),
+        dim1: convertUnitText("length", r.dim1, from.length, to.length),
+        dim2: convertUnitText("length", r.dim2, from.length, to.length),
+      }))
+    )
+  );
+
+  const network = evaluateNetwork(
+    rows.map((r) => rowSegment(r, units)),
+    conditions
+  );
+  const onIndexPath = new Set(network.indexPath);
+  const nameOf = (id: string) => rows.find((r) => r.id === id)?.name || id;
+  const pa = (v: number) => formatQuantity("pressure", v, units.pressure);
+
+  const update = (id: string, patch: Partial<SegmentRow>) =>
+    setRows((rs) => rs.map((r) => (r.id === id ? { ...r, ...patch } : r)));
+  const addRow = (parentId: string) => {
+    const id = `s${nextId.current++}`;
+    setRows((rs) => [
+      ...rs,
+      { id, parentId, name: `Segment ${id.slice(1)}`, length: "", flow: "", shape: "rectangular", dim1: "", dim2: "", k: "0" },
+    ]);
+  };
+  // Children of a removed segment reconnect to its parent
+  const removeRow = (id: string) =>
+    setRows((rs) => {
+      const gone = rs.find((r) => r.id === id);
+      return rs
+        .filter((r) => r.id !== id)
+        .map((r) => (r.parentId === id ? { ...r, parentId: gone?.parentId ?? "" } : r));
+    });
+
+  return (
+    <div>
+      <div className="mb-2 flex items-center justify-between">
+        <div className="text-sm text-slate-500">
+          Each segment: straight-duct friction over its length plus ΣK × velocity pressure.
+        </div>
+        <Button variant="secondary" onClick={() => addRow("")}>
+          Add segment
+        </Button>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-slate-500">
+              <th className="p-1 font-normal">Segment</th>
+              <th className="p-1 font-normal">Upstream</th>
+              <th className="p-1 font-normal">Length ({units.distance})</th>
+              <th className="p-1 font-normal">Flow ({units.flow})</th>
+              <th className="p-1 font-normal">Shape</th>
+              <th className="p-1 font-normal">Size ({units.length})</th>
+              <th className="p-1 font-normal">ΣK</th>
+              <th className="p-1 font-normal">Velocity</th>
+              <th className="p-1 font-normal">Friction</th>
+              <th className="p-1 font-normal">Loss</th>
+              <th className="p-1 font-normal">From fan</th>
+              <th className="p-1" />
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((r) => {
+              const res = network.segments[r.id];
+              return (
+                <tr key={r.id} className={cn("border-t", onIndexPath.has(r.id) && "bg-amber-50")}>
+                  <td className="p-1">
+                    <Input className="w-[130px]" value={r.name} onChange={(e) => update(r.id, { name: e.target.value })} />
+                  </td>
+                  <td className="p-1">
+                    <Select
+                      value={r.parentId || FAN}
+                      onValueChange={(v) => update(r.id, { parentId: v === FAN ? "" : v })}
+                    >
+                      <SelectTrigger className="w-[130px]">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={FAN}>Fan</SelectItem>
+                        {rows
+                          .filter((o) => o.id !== r.id)
+                          .map((o) => (
+                            <SelectItem key={o.id} value={o.id}>
+                              {o.name || o.id}
+                            </SelectItem>
+                          ))}
+                      </SelectContent>
+                    </Select>
+                  </td>
+                  <td className="p-1">
+                    <Input className="w-[80px]" value={r.length} onChange={(e) => update(r.id, { length: e.target.value })} />
+                  </td>
+                  <td className="p-1">
+                    <Input className="w-[90px]" value={r.flow} onChange={(e) => update(r.id, { flow: e.target.value })} />
+                  </td>
+                  <td className="p-1">
+                    <Select value={r.shape} onValueChange={(v: DuctShape) => update(r.id, { shape: v })}>
+                      <SelectTrigger className="w-[120px]">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="rectangular">Rectangular</SelectItem>
+                        <SelectItem value="round">Round</SelectItem>
+                        <SelectItem value="flatOval">Flat oval</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </td>
+                  <td className="p-1">
+                    <div className="flex items-center gap-1">
+                      <Input
+                        className="w-[70px]"
+                        title={r.shape === "round" ? "Diameter" : r.shape === "flatOval" ? "Major axis" : "Width"}
+                        value={r.dim1}
+                        onChange={(e) => update(r.id, { dim1: e.target.value })}
+                      />
+                      {r.shape !== "round" && (
+                        <>
+                          <span>×</span>
+                          <Input
+                            className="w-[70px]"
+                            title={r.shape === "flatOval" ? "Minor axis" : "Height"}
+                            value={r.dim2}
+                            onChange={(e) => update(r.id, { dim2: e.target.value })}
+                          />
+                        </>
+                      )}
+                    </div>
+                  </td>
+                  <td className="p-1">
+                    <Input className="w-[60px]" value={r.k} onChange={(e) => update(r.id, { k: e.target.value })} />
+                  </td>
+                  <td className="p-1 whitespace-nowrap">{formatQuantity("velocity", res?.velocity, units.velocity)}</td>
+                  <td className="p-1 whitespace-nowrap">{formatQuantity("dp", res?.dp_per_m, units.dp)}</td>
+                  <td className="p-1 whitespace-nowrap">{pa(res?.loss ?? NaN)}</td>
+                  <td className="p-1 whitespace-nowrap font-medium">
+                    {pa(res?.cumulative ?? NaN)}
+                    {network.indexPath.at(-1) === r.id && (
+                      <Badge variant="destructive" className="ml-2">
+                        Index
+                      </Badge>
+                    )}
+                  </td>
+                  <td className="p-1 whitespace-nowrap">
+                    <Button variant="ghost" size="sm" onClick={() => addRow(r.id)}>
+                      + Branch
+                    </Button>
+                    <Button variant="ghost" size="sm" onClick={() => removeRow(r.id)}>
+                      Remove
+                    </Button>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      {!!network.warnings.length && (
+        <div className="mt-3 space-y-2">
+          {network.warnings.map((w, i) => (
+            <div
+              key={i}
+              className="rounded border-l-4 border-amber-400 bg-amber-50 p-2 text-sm text-amber-800"
+            >
+              {w}
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="mt-4 grid gap-4 md:grid-cols-2">
+        <div className="rounded bg-white p-4">
+          <h4 className="mb-2 font-medium">Index (critical) path</h4>
+          <div className="text-sm">
+            Fan → {network.indexPath.map(nameOf).join(" → ") || "—"}
+          </div>
+          <div className="flex items-center justify-between py-1 text-sm">
+            <span>Fan pressure to index terminal</span>
+            <span className="font-medium">{pa(network.fanPressure)}</span>
+          </div>
+        </div>
+        <div className="rounded bg-white p-4">
+          <h4 className="mb-2 font-medium">Terminals</h4>
+          {network.terminals.map((t) => (
+            <div key={t.id} className="flex items-center justify-between py-1 text-sm">
+              <span>{nameOf(t.id)}</span>
+              <span className="font-medium">
+                {pa(t.pressure)}
+                {network.fanPressure - t.pressure > 0 && (
+                  <span className="ml-2 text-xs text-slate-500">
+                    (excess {pa(network.fanPressure - t.pressure)} to balance)
+                  </span>
+                )}
+              </span>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
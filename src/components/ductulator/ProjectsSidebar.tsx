@@ -0,0 +1,220 @@
+"use client";
+
+import React, { useEffect, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectTrigger,
+  SelectValue,
+  SelectContent,
+  SelectItem,
+} from "@/components/ui/select";
+import { downloadText } from "@/components/ductulator/csv";
+import { sectionLabel } from "@/components/ductulator/SectionRuleFields";
+import { loadProjects, putProject, removeProject } from "@/components/ductulator/store";
+import { useStoredState } from "@/hooks/use-stored-state";
+import {
+  MODE_LABELS,
+  newId,
+  newProject,
+  parseProject,
+  projectToJSON,
+  searchCalcs,
+  type DuctResult,
+  type Project,
+  type SavedCalc,
+  type UnitPrefs,
+} from "@/lib/ductulator";
+
+/** The calculation on screen, as it would be saved. */
+export type CurrentCalc = { query: string; result: DuctResult; warnings: string[] };
+
+const fileName = (name: string) => `${name.replace(/[^\w-]+/g, "-").toLowerCase() || "project"}.json`;
+
+/**
+ * Named projects of saved calculations, kept in the browser (IndexedDB): save
+ * the current calculation with a note and tag, then search, reopen, duplicate
+ * or delete it later. A whole project moves between browsers as one JSON file.
+ */
+export default function ProjectsSidebar({
+  current,
+  onOpen,
+  units,
+}: {
+  current: CurrentCalc | null;
+  onOpen: (calc: SavedCalc) => void;
+  units: UnitPrefs;
+}) {
+  const [projects, setProjects] = useState<Project[]>([]);
+  const [activeId, setActiveId] = useStoredState<string>("ductulator.activeProject", "", (raw) => {
+    const v = JSON.parse(raw);
+    return typeof v === "string" ? v : null;
+  });
+  const [search, setSearch] = useState("");
+  const [newName, setNewName] = useState("");
+  const [note, setNote] = useState("");
+  const [tag, setTag] = useState("");
+  const [messages, setMessages] = useState<string[]>([]);
+  const fileRef = useRef<HTMLInputElement | null>(null);
+
+  useEffect(() => {
+    loadProjects()
+      .then(setProjects)
+      .catch(() => setMessages(["Projects are unavailable: this browser blocks local storage."]));
+  }, []);
+
+  const active = projects.find((p) => p.id === activeId) ?? projects[0] ?? null;
+
+  // Every change goes to IndexedDB as well as the list on screen
+  const store = (project: Project) => {
+    setProjects((ps) => (ps.some((p) => p.id === project.id) ? ps.map((p) => (p.id === project.id ? project : p)) : [...ps, project]));
+    putProject(project).catch(() => setMessages([`Could not save ${project.name}.`]));
+  };
+  const updateCalcs = (fn: (calcs: SavedCalc[]) => SavedCalc[]) => {
+    if (active) store({ ...active, calcs: fn(active.calcs) });
+  };
+
+  const createProject = () => {
+    const project = newProject(newName.trim() || `Project ${projects.length + 1}`);
+    store(project);
+    setActiveId(project.id);
+    setNewName("");
+  };
+  const deleteProject = () => {
+    if (!active || !window.confirm(`Delete project "${active.name}" and its ${active.calcs.length} calculation(s)?`)) return;
+    setProjects((ps) => ps.filter((p) => p.id !== active.id));
+    removeProject(active.id).catch(() => setMessages([`Could not delete ${active.name}.`]));
+  };
+
+  const saveCurrent = () => {
+    if (!current) return;
+    const calc: SavedCalc = { id: newId(), savedAt: new Date().toISOString(), note: note.trim(), tag: tag.trim(), ...current };
+    if (active) updateCalcs((cs) => [calc, ...cs]);
+    else {
+      const project = { ...newProject("Project 1"), calcs: [calc] };
+      store(project);
+      setActiveId(project.id);
+    }
+    setNote("");
+  };
+  const duplicateCalc = (c: SavedCalc) =>
+    updateCalcs((cs) => [{ ...c, id: newId(), savedAt: new Date().toISOString(), note: `${c.note || "Untitled"} (copy)` }, ...cs]);
+  const deleteCalc = (id: string) => updateCalcs((cs) => cs.filter((c) => c.id !== id));
+
+  const importFile = async (file: File) => {
+    const { project, errors } = parseProject(await file.text());
+    if (project) {
+      store(project);
+      setActiveId(project.id);
+      setMessages([`Imported ${project.name} with ${project.calcs.length} calculation(s).`, ...errors]);
+    } else setMessages(errors);
+  };
+
+  const shown = active ? searchCalcs(active.calcs, search) : [];
+
+  return (
+    <aside className="w-full shrink-0 rounded border p-3 text-sm lg:w-[300px]">
+      <div className="mb-2 font-medium">Projects</div>
+      <div className="mb-2 flex gap-1">
+        <Select value={active?.id ?? ""} onValueChange={setActiveId}>
+          <SelectTrigger className="min-w-0 flex-1">
+            <SelectValue placeholder="No projects yet" />
+          </SelectTrigger>
+          <SelectContent>
+            {projects.map((p) => (
+              <SelectItem key={p.id} value={p.id}>
+                {p.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button variant="ghost" size="sm" onClick={deleteProject} disabled={!active}>
+          Delete
+        </Button>
+      </div>
+      <div className="mb-2 flex gap-1">
+        <Input placeholder="New project name" value={newName} onChange={(e) => setNewName(e.target.value)} />
+        <Button variant="secondary" size="sm" onClick={createProject}>
+          New
+        </Button>
+      </div>
+      <div className="mb-3 flex gap-1">
+        <Button
+          variant="ghost"
+          size="sm"
+          disabled={!active}
+          onClick={() => active && downloadText(fileName(active.name), projectToJSON(active), "application/json")}
+        >
+          Export JSON
+        </Button>
+        <Button variant="ghost" size="sm" onClick={() => fileRef.current?.click()}>
+          Import JSON
+        </Button>
+        <input
+          ref={fileRef}
+          type="file"
+          accept="application/json,.json"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) void importFile(file);
+            e.target.value = "";
+          }}
+        />
+      </div>
+
+      <div className="mb-3 space-y-1 border-t pt-3">
+        <Input placeholder='Note, e.g. "AHU-2 supply main"' value={note} onChange={(e) => setNote(e.target.value)} />
+        <div className="flex gap-1">
+          <Input placeholder="Tag" value={tag} onChange={(e) => setTag(e.target.value)} />
+          <Button onClick={saveCurrent} disabled={!current}>
+            Save
+          </Button>
+        </div>
+        {!current && <div className="text-xs text-slate-500">Solve a calculation to save it.</div>}
+      </div>
+
+      <Input className="mb-2" placeholder="Search notes and tags" value={search} onChange={(e) => setSearch(e.target.value)} />
+      <div className="max-h-[60vh] space-y-2 overflow-y-auto">
+        {shown.map((c) => (
+          <div key={c.id} className="rounded border p-2">
+            <div className="flex items-start gap-2">
+              <div className="min-w-0 flex-1">
+                <div className="truncate font-medium">{c.note || "Untitled"}</div>
+                <div className="text-xs text-slate-500">
+                  {c.result ? `${MODE_LABELS[c.result.mode]} · ${sectionLabel(c.result, units)}` : "No result"}
+                </div>
+                <div className="text-xs text-slate-500">{new Date(c.savedAt).toLocaleString()}</div>
+              </div>
+              {c.tag && <Badge variant="secondary">{c.tag}</Badge>}
+            </div>
+            {!!c.warnings.length && (
+              <div className="mt-1 text-xs text-amber-800">{c.warnings.length} warning(s)</div>
+            )}
+            <div className="mt-1 flex gap-1">
+              <Button variant="secondary" size="sm" onClick={() => onOpen(c)}>
+                Open
+              </Button>
+              <Button variant="ghost" size="sm" onClick={() => duplicateCalc(c)}>
+                Duplicate
+              </Button>
+              <Button variant="ghost" size="sm" onClick={() => deleteCalc(c.id)}>
+                Delete
+              </Button>
+            </div>
+          </div>
+        ))}
+        {active && !shown.length && (
+          <div className="text-xs text-slate-500">{search ? "No matches." : "No saved calculations yet."}</div>
+        )}
+      </div>
+      {messages.map((m, i) => (
+        <div key={i} className="mt-2 text-xs text-slate-600">
+          {m}
+        </div>
+      ))}
+    </aside>
+  );
+}
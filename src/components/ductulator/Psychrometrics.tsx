@@ -0,0 +1,86 @@
+"use client";
+
+import React, { useState } from "react";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  airCapacity,
+  formatQuantity,
+  psychrometrics,
+  safeNum,
+  temperatureDeltaScale,
+  type DuctConditions,
+  type UnitPrefs,
+} from "@/lib/ductulator";
+import { useUnitChange } from "@/hooks/use-unit-change";
+
+/** Psychrometric state of the design air, and what the current airflow carries for a ΔT. */
+export default function Psychrometrics({
+  conditions,
+  flow_m3s,
+  units,
+}: {
+  conditions: DuctConditions;
+  flow_m3s: number;
+  units: UnitPrefs;
+}) {
+  // Temperature difference, in degrees of units.temperature
+  const [bufDT, setBufDT] = useState(() => String(10 / temperatureDeltaScale(units.temperature)));
+
+  useUnitChange(units, (from, to) =>
+    setBufDT((b) => {
+      const n = Number(b);
+      if (b.trim() === "" || !Number.isFinite(n)) return b;
+      return String(Number(((n * temperatureDeltaScale(from.temperature)) / temperatureDeltaScale(to.temperature)).toPrecision(4)));
+    })
+  );
+
+  const { pressure, temperature: T, rh } = conditions;
+  const state = psychrometrics(pressure, T, rh);
+  const dT = safeNum(bufDT, 0) * temperatureDeltaScale(units.temperature);
+  const load = airCapacity(pressure, T, rh, flow_m3s, dT);
+  const temp = (v: number) => formatQuantity("temperature", v, units.temperature);
+  const power = (v: number) => formatQuantity("power", v, units.power);
+
+  const rows: [string, string][] = [
+    ["Humidity ratio", formatQuantity("humidityRatio", state.humidityRatio, units.humidityRatio)],
+    ["Dew point", temp(state.dewPoint)],
+    ["Wet bulb", temp(state.wetBulb)],
+    ["Specific enthalpy", formatQuantity("enthalpy", state.enthalpy, units.enthalpy)],
+    ["Specific volume", formatQuantity("specificVolume", state.specificVolume, units.specificVolume)],
+    ["Mass flow (dry air)", formatQuantity("massFlow", load.massFlow, units.massFlow)],
+  ];
+
+  return (
+    <div className="mt-3 border-t pt-3 text-sm">
+      <div className="mb-2 font-medium">Psychrometrics</div>
+      <div className="grid grid-cols-2 gap-x-4 gap-y-1">
+        {rows.map(([label, value]) => (
+          <React.Fragment key={label}>
+            <div className="text-slate-600">{label}</div>
+            <div className="text-right">{value}</div>
+          </React.Fragment>
+        ))}
+      </div>
+
+      <div className="mt-3 flex items-end gap-2">
+        <div>
+          <Label className="mb-1 block text-xs">Cooling ΔT ({units.temperature}, negative to heat)</Label>
+          <Input className="w-[90px]" value={bufDT} onChange={(e) => setBufDT(e.target.value)} />
+        </div>
+        <div className="pb-2 text-xs text-slate-500">Leaving air {temp(load.leavingT)}</div>
+      </div>
+      <div className="mt-2 grid grid-cols-2 gap-x-4 gap-y-1">
+        <div className="text-slate-600">Sensible</div>
+        <div className="text-right">{power(load.sensible)}</div>
+        <div className="text-slate-600">Latent</div>
+        <div className="text-right">{power(load.latent)}</div>
+        <div className="font-medium">Total</div>
+        <div className="text-right font-medium">{power(load.sensible + load.latent)}</div>
+      </div>
+      <div className="mt-1 text-xs text-slate-500">
+        Latent load is the moisture condensed when cooling takes the air below its dew point.
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,198 @@
+"use client";
+
+import React, { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { cn } from "@/lib/utils";
+import { sectionLabel } from "@/components/ductulator/SectionRuleFields";
+import {
+  calcSectionNums,
+  formatQuantity,
+  newId,
+  type DuctConditions,
+  type DuctSection,
+  type SectionCalc,
+  type UnitPrefs,
+} from "@/lib/ductulator";
+
+/** A calculation pinned for comparison. */
+export type Scenario = {
+  id: string;
+  label: string;
+  section: DuctSection;
+  flow_m3s: number;
+  conditions: DuctConditions;
+  profile: string;
+  query: string; // inputs, as a shared-link query, to reopen it
+  calc: SectionCalc;
+};
+
+export type ScenarioDraft = Omit<Scenario, "id" | "label" | "calc">;
+
+// Compared numbers; a rise is flagged red where lower is better
+type Metric = {
+  label: string;
+  of: (c: SectionCalc) => number;
+  value: (c: SectionCalc, units: UnitPrefs) => string;
+  lowerIsBetter?: boolean;
+};
+
+const METRICS: Metric[] = [
+  { label: "Velocity", of: (c) => c.V, value: (c, u) => formatQuantity("velocity", c.V, u.velocity), lowerIsBetter: true },
+  { label: "Pressure drop", of: (c) => c.dp_per_m, value: (c, u) => formatQuantity("dp", c.dp_per_m, u.dp), lowerIsBetter: true },
+  {
+    label: "Velocity pressure",
+    of: (c) => c.velocityPressure,
+    value: (c, u) => formatQuantity("pressure", c.velocityPressure, u.pressure),
+    lowerIsBetter: true,
+  },
+  { label: "Reynolds number", of: (c) => c.Re, value: (c) => c.Re.toFixed(0) },
+  { label: "Friction factor", of: (c) => c.f, value: (c) => c.f.toFixed(5) },
+  { label: "Equivalent diameter", of: (c) => c.eqDiameter, value: (c, u) => formatQuantity("length", c.eqDiameter * 1000, u.length) },
+];
+
+const SIGNIFICANT = 0.005; // relative change worth highlighting
+
+/**
+ * Pinned calculations side by side, each metric shown against a chosen
+ * baseline so the effect of a material, air or size change reads at a glance.
+ */
+export default function ScenarioCompare({
+  scenarios,
+  onChange,
+  current,
+  onOpen,
+  units,
+}: {
+  scenarios: Scenario[];
+  onChange: (next: Scenario[]) => void;
+  current: ScenarioDraft | null; // the solved calculation on screen, if up to date
+  onOpen: (query: string) => void;
+  units: UnitPrefs;
+}) {
+  const [baselineId, setBaselineId] = useState("");
+  const baseline = scenarios.find((s) => s.id === baselineId) ?? scenarios[0];
+
+  const pin = () => {
+    if (!current) return;
+    const label = String.fromCharCode(65 + (scenarios.length % 26)); // A, B, C…
+    const calc = calcSectionNums(current.section, current.flow_m3s, current.conditions);
+    onChange([...scenarios, { ...current, id: newId(), label, calc }]);
+  };
+  const update = (id: string, patch: Partial<Scenario>) => onChange(scenarios.map((s) => (s.id === id ? { ...s, ...patch } : s)));
+  const remove = (id: string) => onChange(scenarios.filter((s) => s.id !== id));
+
+  const change = (value: number, base: number) => (base !== 0 ? (value - base) / Math.abs(base) : 0);
+
+  return (
+    <div className="rounded border p-3">
+      <div className="mb-2 flex flex-wrap items-center gap-2">
+        <div className="text-sm font-medium">Compare scenarios</div>
+        <Button variant="secondary" size="sm" className="ml-auto" onClick={pin} disabled={!current}>
+          Pin current
+        </Button>
+        {!!scenarios.length && (
+          <Button variant="ghost" size="sm" onClick={() => onChange([])}>
+            Clear
+          </Button>
+        )}
+      </div>
+      {!current && <div className="mb-2 text-xs text-slate-500">Solve to pin the current calculation.</div>}
+
+      {!!scenarios.length && baseline && (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left">
+                <th className="p-1" />
+                {scenarios.map((s) => (
+                  <th key={s.id} className={cn("p-1 font-normal", s.id === baseline.id && "bg-slate-50")}>
+                    <Input className="mb-1 w-[130px]" value={s.label} onChange={(e) => update(s.id, { label: e.target.value })} />
+                    <div className="flex gap-1">
+                      <Button
+                        variant={s.id === baseline.id ? "secondary" : "ghost"}
+                        size="sm"
+                        onClick={() => setBaselineId(s.id)}
+                      >
+                        Baseline
+                      </Button>
+                      <Button variant="ghost" size="sm" onClick={() => onOpen(s.query)}>
+                        Open
+                      </Button>
+                      <Button variant="ghost" size="sm" onClick={() => remove(s.id)}>
+                        ×
+                      </Button>
+                    </div>
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              <tr className="border-t text-slate-600">
+                <td className="p-1">Material</td>
+                {scenarios.map((s) => (
+                  <td
+                    key={s.id}
+                    className={cn("p-1", s.conditions.material !== baseline.conditions.material && "font-medium text-slate-900")}
+                  >
+                    {s.conditions.material}
+                  </td>
+                ))}
+              </tr>
+              <tr className="border-t text-slate-600">
+                <td className="p-1">Air</td>
+                {scenarios.map((s) => (
+                  <td key={s.id} className="p-1">
+                    {s.profile && <div>{s.profile}</div>}
+                    {formatQuantity("temperature", s.conditions.temperature, units.temperature)}, {s.conditions.rh} %
+                  </td>
+                ))}
+              </tr>
+              <tr className="border-t text-slate-600">
+                <td className="p-1">Section</td>
+                {scenarios.map((s) => (
+                  <td key={s.id} className="p-1 whitespace-nowrap">
+                    {sectionLabel(s.section, units)}
+                  </td>
+                ))}
+              </tr>
+              <tr className="border-t text-slate-600">
+                <td className="p-1">Flow</td>
+                {scenarios.map((s) => (
+                  <td key={s.id} className="p-1 whitespace-nowrap">
+                    {formatQuantity("flow", s.flow_m3s, units.flow)}
+                  </td>
+                ))}
+              </tr>
+              {METRICS.map((m) => (
+                <tr key={m.label} className="border-t">
+                  <td className="p-1">{m.label}</td>
+                  {scenarios.map((s) => {
+                    const d = change(m.of(s.calc), m.of(baseline.calc));
+                    const shown = s.id !== baseline.id && Math.abs(d) >= SIGNIFICANT;
+                    return (
+                      <td key={s.id} className={cn("p-1 whitespace-nowrap", s.id === baseline.id && "bg-slate-50")}>
+                        {m.value(s.calc, units)}
+                        {shown && (
+                          <span
+                            className={cn(
+                              "ml-1 text-xs",
+                              m.lowerIsBetter ? (d > 0 ? "text-red-700" : "text-emerald-700") : "text-slate-500"
+                            )}
+                          >
+                            {d > 0 ? "+" : ""}
+                            {(d * 100).toFixed(1)} %
+                          </span>
+                        )}
+                      </td>
+                    );
+                  })}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
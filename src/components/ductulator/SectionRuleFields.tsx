@@ -0,0 +1,111 @@
+"use client";
+
+import React from "react";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectTrigger,
+  SelectValue,
+  SelectContent,
+  SelectItem,
+} from "@/components/ui/select";
+import {
+  formatQuantity,
+  safeNum,
+  toSI,
+  type DuctSection,
+  type SectionRule,
+  type SizingShape,
+  type UnitPrefs,
+} from "@/lib/ductulator";
+
+// Section rule as typed; depth is in units.length
+export type SectionRuleDraft = {
+  shape: SizingShape;
+  rectBy: SectionRule["rectBy"];
+  depth: string;
+  aspect: string;
+};
+
+export function sectionRuleFromDraft(d: SectionRuleDraft, units: UnitPrefs): SectionRule {
+  return {
+    shape: d.shape,
+    rectBy: d.rectBy,
+    depth_mm: toSI("length", safeNum(d.depth, 0), units.length),
+    maxAspect: safeNum(d.aspect, 0),
+  };
+}
+
+// Compact size for tables: "Ø 315 mm" or "600 mm × 400 mm"
+export function sectionLabel(s: DuctSection, units: UnitPrefs) {
+  const len = (mm: number) => formatQuantity("length", mm, units.length);
+  if (s.shape === "round") return `Ø ${len(s.diameter_mm)}`;
+  if (s.shape === "flatOval") return `${len(s.major_mm)} × ${len(s.minor_mm)}`;
+  return `${len(s.width_mm)} × ${len(s.height_mm)}`;
+}
+
+/** Shape picker for the sizing tools: round, or rectangular at a depth, optionally held to a maximum aspect ratio. */
+export default function SectionRuleFields({
+  value,
+  onChange,
+  units,
+}: {
+  value: SectionRuleDraft;
+  onChange: (patch: Partial<SectionRuleDraft>) => void;
+  units: UnitPrefs;
+}) {
+  return (
+    <>
+      <div>
+        <Label className="mb-1 block">Shape</Label>
+        <Select value={value.shape} onValueChange={(v: SizingShape) => onChange({ shape: v })}>
+          <SelectTrigger className="w-[130px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="rectangular">Rectangular</SelectItem>
+            <SelectItem value="round">Round</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+      {value.shape === "rectangular" && (
+        <>
+          <div>
+            <Label className="mb-1 block">Rectangular by</Label>
+            <Select
+              value={value.rectBy}
+              onValueChange={(v: SectionRule["rectBy"]) => onChange({ rectBy: v })}
+            >
+              <SelectTrigger className="w-[140px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="depth">Fixed depth</SelectItem>
+                <SelectItem value="aspect">Max aspect ratio</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label className="mb-1 block">Depth ({units.length})</Label>
+            <Input
+              className="w-[110px]"
+              value={value.depth}
+              onChange={(e) => onChange({ depth: e.target.value })}
+            />
+          </div>
+          {value.rectBy === "aspect" && (
+            <div>
+              <Label className="mb-1 block">Max aspect ratio</Label>
+              <Input
+                className="w-[110px]"
+                value={value.aspect}
+                onChange={(e) => onChange({ aspect: e.target.value })}
+              />
+            </div>
+          )}
+        </>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,285 @@
+"use client";
+
+import React, { useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectTrigger,
+  SelectValue,
+  SelectContent,
+  SelectItem,
+} from "@/components/ui/select";
+import { exportCSV } from "@/components/ductulator/csv";
+import SectionRuleFields, {
+  sectionLabel,
+  sectionRuleFromDraft,
+  type SectionRuleDraft,
+} from "@/components/ductulator/SectionRuleFields";
+import {
+  convertUnit,
+  convertUnitText,
+  formatQuantity,
+  fromSI,
+  safeNum,
+  sizeSchedule,
+  toSI,
+  type DuctConditions,
+  type ScheduleSegment,
+  type SizingCriteria,
+  type UnitPrefs,
+} from "@/lib/ductulator";
+import { useUnitChange } from "@/hooks/use-unit-change";
+
+// Editable schedule line, kept as typed in the current units. parentId "" = fan.
+type ScheduleRow = { id: string; parentId: string; name: string; length: string; flow: string };
+
+const FAN = "__fan__";
+
+// Example branch schedule (SI: m, L/s); mains carry no outlets of their own
+const EXAMPLE: [string, string, string, number, number][] = [
+  ["s1", "", "Main", 12, 0],
+  ["s2", "s1", "Main 2", 8, 0],
+  ["s3", "s2", "Outlet 1", 4, 150],
+  ["s4", "s2", "Outlet 2", 6, 150],
+  ["s5", "s1", "Outlet 3", 5, 200],
+];
+
+function exampleRows(units: UnitPrefs): ScheduleRow[] {
+  return EXAMPLE.map(([id, parentId, name, L, Q]) => ({
+    id,
+    parentId,
+    name,
+    length: String(convertUnit("distance", L, "m", units.distance)),
+    flow: String(convertUnit("flow", Q, "L/s", units.flow)),
+  }));
+}
+
+const sig = (v: number) => (Number.isFinite(v) ? +v.toPrecision(4) : "");
+
+/**
+ * Equal-friction sizing of a whole branch schedule: terminal flows are summed
+ * upstream and every segment is sized to the design friction rate, capped by
+ * the velocity limit.
+ */
+export default function SizingSchedule({
+  conditions,
+  units,
+}: {
+  conditions: DuctConditions;
+  units: UnitPrefs;
+}) {
+  const [rows, setRows] = useState<ScheduleRow[]>(() => exampleRows(units));
+  const nextId = useRef(EXAMPLE.length + 1);
+
+  // Criteria, kept as typed in the current units
+  const [rule, setRule] = useState<SectionRuleDraft>(() => ({
+    shape: "rectangular",
+    rectBy: "depth",
+    depth: String(convertUnit("length", 300, "mm", units.length)),
+    aspect: "2",
+  }));
+  const [bufDp, setBufDp] = useState(() => String(convertUnit("dp", 1, "Pa/m", units.dp)));
+  const [bufMaxV, setBufMaxV] = useState(() => String(convertUnit("velocity", 6, "m/s", units.velocity)));
+
+  useUnitChange(units, (from, to) => {
+    setRows((rs) =>
+      rs.map((r) => ({
+        ...r,
+        length: convertUnitText("distance", r.length, from.distance, to.distance),
+        flow: convertUnitText("flow", r.flow, from.flow, to.flow),
+      }))
+    );
+    setBufDp((b) => convertUnitText("dp", b, from.dp, to.dp));
+    setBufMaxV((b) => convertUnitText("velocity", b, from.velocity, to.velocity));
+    setRule((r) => ({ ...r, depth: convertUnitText("length", r.depth, from.length, to.length) }));
+  });
+
+  const segments: ScheduleSegment[] = rows.map((r) => ({
+    id: r.id,
+    parentId: r.parentId || null,
+    name: r.name || r.id,
+    length_m: toSI("distance", safeNum(r.length, 0), units.distance),
+    terminalFlow_m3s: toSI("flow", safeNum(r.flow, 0), units.flow),
+  }));
+  const criteria: SizingCriteria = {
+    ...sectionRuleFromDraft(rule, units),
+    targetDp: toSI("dp", safeNum(bufDp, 0), units.dp),
+    maxVelocity: toSI("velocity", safeNum(bufMaxV, 0), units.velocity),
+  };
+  const schedule = sizeSchedule(segments, criteria, conditions);
+  const sized = new Map(schedule.segments.map((s) => [s.id, s]));
+
+  const update = (id: string, patch: Partial<ScheduleRow>) =>
+    setRows((rs) => rs.map((r) => (r.id === id ? { ...r, ...patch } : r)));
+  const addRow = (parentId: string) => {
+    const id = `s${nextId.current++}`;
+    setRows((rs) => [...rs, { id, parentId, name: `Segment ${id.slice(1)}`, length: "", flow: "" }]);
+  };
+  // Children of a removed segment reconnect to its parent
+  const removeRow = (id: string) =>
+    setRows((rs) => {
+      const gone = rs.find((r) => r.id === id);
+      return rs
+        .filter((r) => r.id !== id)
+        .map((r) => (r.parentId === id ? { ...r, parentId: gone?.parentId ?? "" } : r));
+    });
+
+  function handleExport() {
+    const out: (string | number)[][] = [
+      [
+        "Segment",
+        "Upstream",
+        `Length (${units.distance})`,
+        `Flow (${units.flow})`,
+        "Shape",
+        `Width/Diameter (${units.length})`,
+        `Height (${units.length})`,
+        `Velocity (${units.velocity})`,
+        `Friction (${units.dp})`,
+        `Loss (${units.pressure})`,
+        "Limited by",
+      ],
+    ];
+    for (const r of rows) {
+      const s = sized.get(r.id);
+      const sec = s?.section;
+      const len = (mm: number) => sig(fromSI("length", mm, units.length));
+      out.push([
+        r.name,
+        rows.find((o) => o.id === r.parentId)?.name ?? "Fan",
+        r.length,
+        sig(fromSI("flow", s?.flow_m3s ?? NaN, units.flow)),
+        sec?.shape ?? "",
+        sec ? len(sec.shape === "round" ? sec.diameter_mm : sec.shape === "rectangular" ? sec.width_mm : sec.major_mm) : "",
+        sec?.shape === "rectangular" ? len(sec.height_mm) : sec?.shape === "flatOval" ? len(sec.minor_mm) : "",
+        sig(fromSI("velocity", s?.velocity ?? NaN, units.velocity)),
+        sig(fromSI("dp", s?.dp_per_m ?? NaN, units.dp)),
+        sig(fromSI("pressure", s?.friction ?? NaN, units.pressure)),
+        sec ? s.limitedBy : "",
+      ]);
+    }
+    exportCSV("ductulator-schedule.csv", out);
+  }
+
+  return (
+    <div>
+      <div className="mb-3 flex flex-wrap items-end gap-3">
+        <div>
+          <Label className="mb-1 block">Design friction ({units.dp})</Label>
+          <Input className="w-[110px]" value={bufDp} onChange={(e) => setBufDp(e.target.value)} />
+        </div>
+        <div>
+          <Label className="mb-1 block">Max velocity ({units.velocity})</Label>
+          <Input className="w-[110px]" value={bufMaxV} onChange={(e) => setBufMaxV(e.target.value)} />
+        </div>
+        <SectionRuleFields value={rule} onChange={(p) => setRule((r) => ({ ...r, ...p }))} units={units} />
+        <div className="ml-auto flex gap-2">
+          <Button variant="secondary" onClick={() => addRow("")}>
+            Add segment
+          </Button>
+          <Button variant="ghost" onClick={handleExport}>
+            Export CSV
+          </Button>
+        </div>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-slate-500">
+              <th className="p-1 font-normal">Segment</th>
+              <th className="p-1 font-normal">Upstream</th>
+              <th className="p-1 font-normal">Length ({units.distance})</th>
+              <th className="p-1 font-normal">Outlet flow ({units.flow})</th>
+              <th className="p-1 font-normal">Total flow</th>
+              <th className="p-1 font-normal">Size</th>
+              <th className="p-1 font-normal">Velocity</th>
+              <th className="p-1 font-normal">Friction</th>
+              <th className="p-1 font-normal">Loss</th>
+              <th className="p-1" />
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((r) => {
+              const s = sized.get(r.id);
+              return (
+                <tr key={r.id} className="border-t">
+                  <td className="p-1">
+                    <Input className="w-[130px]" value={r.name} onChange={(e) => update(r.id, { name: e.target.value })} />
+                  </td>
+                  <td className="p-1">
+                    <Select
+                      value={r.parentId || FAN}
+                      onValueChange={(v) => update(r.id, { parentId: v === FAN ? "" : v })}
+                    >
+                      <SelectTrigger className="w-[130px]">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={FAN}>Fan</SelectItem>
+                        {rows
+                          .filter((o) => o.id !== r.id)
+                          .map((o) => (
+                            <SelectItem key={o.id} value={o.id}>
+                              {o.name || o.id}
+                            </SelectItem>
+                          ))}
+                      </SelectContent>
+                    </Select>
+                  </td>
+                  <td className="p-1">
+                    <Input className="w-[80px]" value={r.length} onChange={(e) => update(r.id, { length: e.target.value })} />
+                  </td>
+                  <td className="p-1">
+                    <Input className="w-[90px]" value={r.flow} onChange={(e) => update(r.id, { flow: e.target.value })} />
+                  </td>
+                  <td className="p-1 whitespace-nowrap">{formatQuantity("flow", s?.flow_m3s, units.flow)}</td>
+                  <td className="p-1 whitespace-nowrap font-medium">
+                    {s?.section ? sectionLabel(s.section, units) : "—"}
+                    {s?.section && s.limitedBy === "velocity" && (
+                      <Badge variant="secondary" className="ml-2">
+                        Velocity
+                      </Badge>
+                    )}
+                  </td>
+                  <td className="p-1 whitespace-nowrap">{formatQuantity("velocity", s?.velocity, units.velocity)}</td>
+                  <td className="p-1 whitespace-nowrap">{formatQuantity("dp", s?.dp_per_m, units.dp)}</td>
+                  <td className="p-1 whitespace-nowrap">{formatQuantity("pressure", s?.friction, units.pressure)}</td>
+                  <td className="p-1 whitespace-nowrap">
+                    <Button variant="ghost" size="sm" onClick={() => addRow(r.id)}>
+                      + Branch
+                    </Button>
+                    <Button variant="ghost" size="sm" onClick={() => removeRow(r.id)}>
+                      Remove
+                    </Button>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      {!!schedule.warnings.length && (
+        <div className="mt-3 space-y-2">
+          {schedule.warnings.map((w, i) => (
+            <div
+              key={i}
+              className="rounded border-l-4 border-amber-400 bg-amber-50 p-2 text-sm text-amber-800"
+            >
+              {w}
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="mt-3 text-xs text-slate-600">
+        Flows are summed upstream from the outlet flows. Each segment is sized to the design
+        friction rate; segments marked Velocity were enlarged to respect the velocity limit.
+      </div>
+    </div>
+  );
+}
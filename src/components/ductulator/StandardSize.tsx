@@ -0,0 +1,139 @@
+"use client";
+
+import React from "react";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectTrigger,
+  SelectValue,
+  SelectContent,
+  SelectItem,
+} from "@/components/ui/select";
+import { sectionLabel } from "@/components/ductulator/SectionRuleFields";
+import {
+  SIZE_CATALOGUES,
+  calcSectionNums,
+  customCatalogue,
+  formatQuantity,
+  safeNum,
+  snapSection,
+  toSI,
+  type CatalogueId,
+  type DuctConditions,
+  type DuctSection,
+  type UnitPrefs,
+} from "@/lib/ductulator";
+
+// Chosen catalogue; custom sizes are typed comma-separated in units.length
+export type StandardSizeSettings = {
+  catalogue: CatalogueId | "custom" | "none";
+  roundUp: boolean;
+  custom: string;
+};
+
+export const NO_STANDARD_SIZE: StandardSizeSettings = { catalogue: "none", roundUp: true, custom: "" };
+
+/** Solved section next to the nearest fabricable one from a size catalogue. */
+export default function StandardSize({
+  section,
+  flow_m3s,
+  conditions,
+  units,
+  settings,
+  onSettingsChange,
+}: {
+  section: DuctSection;
+  flow_m3s: number;
+  conditions: DuctConditions;
+  units: UnitPrefs;
+  settings: StandardSizeSettings;
+  onSettingsChange: (patch: Partial<StandardSizeSettings>) => void;
+}) {
+  const catalogue =
+    settings.catalogue === "custom"
+      ? customCatalogue(
+          settings.custom
+            .split(/[,;\s]+/)
+            .filter(Boolean)
+            .map((v) => toSI("length", safeNum(v, 0), units.length))
+        )
+      : settings.catalogue === "none"
+        ? null
+        : SIZE_CATALOGUES[settings.catalogue];
+  const standard = catalogue && snapSection(section, catalogue, settings.roundUp);
+  const exact = calcSectionNums(section, flow_m3s, conditions);
+  const snapped = standard && calcSectionNums(standard, flow_m3s, conditions);
+
+  return (
+    <div className="mt-3 border-t pt-3 text-sm">
+      <div className="mb-2 flex flex-wrap items-center gap-2">
+        <span className="font-medium">Standard size</span>
+        <Select
+          value={settings.catalogue}
+          onValueChange={(v: StandardSizeSettings["catalogue"]) => onSettingsChange({ catalogue: v })}
+        >
+          <SelectTrigger className="w-[200px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="none">None</SelectItem>
+            {(Object.keys(SIZE_CATALOGUES) as CatalogueId[]).map((id) => (
+              <SelectItem key={id} value={id}>
+                {SIZE_CATALOGUES[id].name}
+              </SelectItem>
+            ))}
+            <SelectItem value="custom">Custom list</SelectItem>
+          </SelectContent>
+        </Select>
+        <label className="inline-flex items-center gap-2 text-xs">
+          <Switch checked={settings.roundUp} onCheckedChange={(v) => onSettingsChange({ roundUp: v })} />
+          <span>Round up</span>
+        </label>
+      </div>
+      {settings.catalogue === "custom" && (
+        <Input
+          className="mb-2"
+          placeholder={`Sizes in ${units.length}, comma-separated`}
+          value={settings.custom}
+          onChange={(e) => onSettingsChange({ custom: e.target.value })}
+        />
+      )}
+
+      {catalogue && (
+        <table className="w-full">
+          <thead>
+            <tr className="text-left text-slate-500">
+              <th className="py-1 font-normal" />
+              <th className="py-1 font-normal">Size</th>
+              <th className="py-1 font-normal">Velocity</th>
+              <th className="py-1 font-normal">Pressure drop</th>
+            </tr>
+          </thead>
+          <tbody>
+            <tr className="border-t">
+              <td className="py-1">Exact</td>
+              <td className="py-1">{sectionLabel(section, units)}</td>
+              <td className="py-1">{formatQuantity("velocity", exact.V, units.velocity)}</td>
+              <td className="py-1">{formatQuantity("dp", exact.dp_per_m, units.dp)}</td>
+            </tr>
+            <tr className="border-t font-medium">
+              <td className="py-1">Standard</td>
+              {standard && snapped ? (
+                <>
+                  <td className="py-1">{sectionLabel(standard, units)}</td>
+                  <td className="py-1">{formatQuantity("velocity", snapped.V, units.velocity)}</td>
+                  <td className="py-1">{formatQuantity("dp", snapped.dp_per_m, units.dp)}</td>
+                </>
+              ) : (
+                <td className="py-1 font-normal text-slate-500" colSpan={3}>
+                  No {section.shape === "round" ? "round" : "rectangular"} size in this catalogue fits.
+                </td>
+              )}
+            </tr>
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
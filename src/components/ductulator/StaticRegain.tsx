@@ -0,0 +1,217 @@
+"use client";
+
+import React, { useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { cn } from "@/lib/utils";
+import SectionRuleFields, {
+  sectionLabel,
+  sectionRuleFromDraft,
+  type SectionRuleDraft,
+} from "@/components/ductulator/SectionRuleFields";
+import {
+  convertUnit,
+  convertUnitText,
+  formatQuantity,
+  safeNum,
+  sizeStaticRegain,
+  toSI,
+  type DuctConditions,
+  type RegainCriteria,
+  type UnitPrefs,
+} from "@/lib/ductulator";
+import { useUnitChange } from "@/hooks/use-unit-change";
+
+// Editable main segment, kept as typed in the current units
+type RegainRow = { id: string; name: string; length: string; flow: string; k: string };
+
+// Example supply main with four take-offs (SI: m, L/s)
+const EXAMPLE: [string, number, number, number][] = [
+  ["Main 1", 10, 500, 0.3],
+  ["Main 2", 8, 500, 0.3],
+  ["Main 3", 8, 500, 0.3],
+  ["Main 4", 6, 500, 0.5],
+];
+
+function exampleRows(units: UnitPrefs): RegainRow[] {
+  return EXAMPLE.map(([name, L, Q, k], i) => ({
+    id: `m${i + 1}`,
+    name,
+    length: String(convertUnit("distance", L, "m", units.distance)),
+    flow: String(convertUnit("flow", Q, "L/s", units.flow)),
+    k: String(k),
+  }));
+}
+
+/**
+ * Static-regain sizing of a supply main: each downstream section is slowed so
+ * the regained velocity pressure offsets the loss of the section before it.
+ */
+export default function StaticRegain({
+  conditions,
+  units,
+}: {
+  conditions: DuctConditions;
+  units: UnitPrefs;
+}) {
+  const [rows, setRows] = useState<RegainRow[]>(() => exampleRows(units));
+  const nextId = useRef(EXAMPLE.length + 1);
+
+  // Criteria, kept as typed in the current units
+  const [rule, setRule] = useState<SectionRuleDraft>(() => ({
+    shape: "round",
+    rectBy: "aspect",
+    depth: String(convertUnit("length", 400, "mm", units.length)),
+    aspect: "2",
+  }));
+  const [bufV0, setBufV0] = useState(() => String(convertUnit("velocity", 12, "m/s", units.velocity)));
+  const [bufVmin, setBufVmin] = useState(() => String(convertUnit("velocity", 4, "m/s", units.velocity)));
+  const [bufStatic, setBufStatic] = useState(() => String(convertUnit("pressure", 250, "Pa", units.pressure)));
+  const [bufR, setBufR] = useState("0.75");
+
+  useUnitChange(units, (from, to) => {
+    setRows((rs) =>
+      rs.map((r) => ({
+        ...r,
+        length: convertUnitText("distance", r.length, from.distance, to.distance),
+        flow: convertUnitText("flow", r.flow, from.flow, to.flow),
+      }))
+    );
+    setBufV0((b) => convertUnitText("velocity", b, from.velocity, to.velocity));
+    setBufVmin((b) => convertUnitText("velocity", b, from.velocity, to.velocity));
+    setBufStatic((b) => convertUnitText("pressure", b, from.pressure, to.pressure));
+    setRule((r) => ({ ...r, depth: convertUnitText("length", r.depth, from.length, to.length) }));
+  });
+
+  const criteria: RegainCriteria = {
+    ...sectionRuleFromDraft(rule, units),
+    initialVelocity: toSI("velocity", safeNum(bufV0, 0), units.velocity),
+    minVelocity: toSI("velocity", safeNum(bufVmin, 0), units.velocity),
+    startStatic: toSI("pressure", safeNum(bufStatic, 0), units.pressure),
+    regainCoefficient: safeNum(bufR, 0),
+  };
+  const result = sizeStaticRegain(
+    rows.map((r) => ({
+      id: r.id,
+      name: r.name || r.id,
+      length_m: toSI("distance", safeNum(r.length, 0), units.distance),
+      takeoffFlow_m3s: toSI("flow", safeNum(r.flow, 0), units.flow),
+      fittingsK: safeNum(r.k, 0),
+    })),
+    criteria,
+    conditions
+  );
+  const sized = new Map(result.segments.map((s) => [s.id, s]));
+  const pa = (v: number | undefined) => formatQuantity("pressure", v, units.pressure);
+
+  const update = (id: string, patch: Partial<RegainRow>) =>
+    setRows((rs) => rs.map((r) => (r.id === id ? { ...r, ...patch } : r)));
+  const addRow = () => {
+    const id = `m${nextId.current++}`;
+    setRows((rs) => [...rs, { id, name: `Main ${id.slice(1)}`, length: "", flow: "", k: "0" }]);
+  };
+  const removeRow = (id: string) => setRows((rs) => rs.filter((r) => r.id !== id));
+
+  return (
+    <div>
+      <div className="mb-3 flex flex-wrap items-end gap-3">
+        <div>
+          <Label className="mb-1 block">Initial velocity ({units.velocity})</Label>
+          <Input className="w-[110px]" value={bufV0} onChange={(e) => setBufV0(e.target.value)} />
+        </div>
+        <div>
+          <Label className="mb-1 block">Min velocity ({units.velocity})</Label>
+          <Input className="w-[110px]" value={bufVmin} onChange={(e) => setBufVmin(e.target.value)} />
+        </div>
+        <div>
+          <Label className="mb-1 block">Regain coefficient R</Label>
+          <Input className="w-[110px]" value={bufR} onChange={(e) => setBufR(e.target.value)} />
+        </div>
+        <div>
+          <Label className="mb-1 block">Static at start ({units.pressure})</Label>
+          <Input className="w-[110px]" value={bufStatic} onChange={(e) => setBufStatic(e.target.value)} />
+        </div>
+        <SectionRuleFields value={rule} onChange={(p) => setRule((r) => ({ ...r, ...p }))} units={units} />
+        <Button variant="secondary" className="ml-auto" onClick={addRow}>
+          Add segment
+        </Button>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-slate-500">
+              <th className="p-1 font-normal">Segment</th>
+              <th className="p-1 font-normal">Length ({units.distance})</th>
+              <th className="p-1 font-normal">Take-off flow ({units.flow})</th>
+              <th className="p-1 font-normal">ΣK</th>
+              <th className="p-1 font-normal">Main flow</th>
+              <th className="p-1 font-normal">Size</th>
+              <th className="p-1 font-normal">Velocity</th>
+              <th className="p-1 font-normal">Vel. pressure</th>
+              <th className="p-1 font-normal">Loss</th>
+              <th className="p-1 font-normal">Regain</th>
+              <th className="p-1 font-normal">Static at take-off</th>
+              <th className="p-1" />
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((r) => {
+              const s = sized.get(r.id);
+              return (
+                <tr key={r.id} className={cn("border-t", s?.shortfall && "bg-amber-50")}>
+                  <td className="p-1">
+                    <Input className="w-[120px]" value={r.name} onChange={(e) => update(r.id, { name: e.target.value })} />
+                  </td>
+                  <td className="p-1">
+                    <Input className="w-[80px]" value={r.length} onChange={(e) => update(r.id, { length: e.target.value })} />
+                  </td>
+                  <td className="p-1">
+                    <Input className="w-[90px]" value={r.flow} onChange={(e) => update(r.id, { flow: e.target.value })} />
+                  </td>
+                  <td className="p-1">
+                    <Input className="w-[60px]" value={r.k} onChange={(e) => update(r.id, { k: e.target.value })} />
+                  </td>
+                  <td className="p-1 whitespace-nowrap">{formatQuantity("flow", s?.flow_m3s, units.flow)}</td>
+                  <td className="p-1 whitespace-nowrap font-medium">
+                    {s?.section ? sectionLabel(s.section, units) : "—"}
+                  </td>
+                  <td className="p-1 whitespace-nowrap">{formatQuantity("velocity", s?.velocity, units.velocity)}</td>
+                  <td className="p-1 whitespace-nowrap">{pa(s?.velocityPressure)}</td>
+                  <td className="p-1 whitespace-nowrap">{pa(s?.loss)}</td>
+                  <td className="p-1 whitespace-nowrap">{pa(s?.regain)}</td>
+                  <td className="p-1 whitespace-nowrap font-medium">{pa(s?.staticAtTakeoff)}</td>
+                  <td className="p-1">
+                    <Button variant="ghost" size="sm" onClick={() => removeRow(r.id)}>
+                      Remove
+                    </Button>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      {!!result.warnings.length && (
+        <div className="mt-3 space-y-2">
+          {result.warnings.map((w, i) => (
+            <div
+              key={i}
+              className="rounded border-l-4 border-amber-400 bg-amber-50 p-2 text-sm text-amber-800"
+            >
+              {w}
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="mt-3 text-xs text-slate-600">
+        Segments run from the fan in order; each ends in a take-off. The first segment runs at the
+        initial velocity; every later one is sized so R × (VP upstream − VP here) recovers the
+        friction and fitting loss of the segment before it.
+      </div>
+    </div>
+  );
+}
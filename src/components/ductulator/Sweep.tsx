@@ -0,0 +1,352 @@
+"use client";
+
+import React, { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectTrigger,
+  SelectValue,
+  SelectContent,
+  SelectItem,
+} from "@/components/ui/select";
+import { exportCSV } from "@/components/ductulator/csv";
+import { sectionLabel } from "@/components/ductulator/SectionRuleFields";
+import {
+  SWEEP_VARIABLES,
+  convertUnitText,
+  formatQuantity,
+  fromSI,
+  runSweep,
+  safeNum,
+  sweepError,
+  temperatureDeltaScale,
+  toSI,
+  type DuctInputs,
+  type Quantity,
+  type SweepPoint,
+  type SweepSpec,
+  type SweepVariable,
+  type UnitPrefs,
+} from "@/lib/ductulator";
+import { useUnitChange } from "@/hooks/use-unit-change";
+
+// Unit each swept input is typed in; relative humidity is always %
+const VARIABLE_QUANTITY: Record<SweepVariable, "flow" | "length" | "temperature" | null> = {
+  flow: "flow",
+  width: "length",
+  height: "length",
+  temperature: "temperature",
+  rh: null,
+};
+
+// Default range per input, SI [from, to, step]
+const DEFAULT_RANGE: Record<SweepVariable, [number, number, number]> = {
+  flow: [0.1, 1, 0.1],
+  width: [100, 1000, 50],
+  height: [100, 1000, 50],
+  temperature: [0, 40, 5],
+  rh: [0, 100, 10],
+};
+
+type Output = "flow" | "velocity" | "dp" | "velocityPressure" | "reynolds" | "friction" | "eqDiameter";
+
+// Outputs that can be tabulated and charted, read from each solved point
+const OUTPUTS: Record<Output, { label: string; quantity: Quantity | null; of: (p: SweepPoint) => number | null }> = {
+  flow: { label: "Flow", quantity: "flow", of: (p) => (p.result ? p.flow_m3s : null) },
+  velocity: { label: "Velocity", quantity: "velocity", of: (p) => p.calc?.V ?? null },
+  dp: { label: "Pressure drop", quantity: "dp", of: (p) => p.calc?.dp_per_m ?? null },
+  velocityPressure: { label: "Velocity pressure", quantity: "pressure", of: (p) => p.calc?.velocityPressure ?? null },
+  reynolds: { label: "Reynolds number", quantity: null, of: (p) => p.calc?.Re ?? null },
+  friction: { label: "Friction factor", quantity: null, of: (p) => p.calc?.f ?? null },
+  eqDiameter: { label: "Equivalent diameter", quantity: "length", of: (p) => (p.calc ? p.calc.eqDiameter * 1000 : null) },
+};
+
+const sig = (v: number) => (Number.isFinite(v) ? +v.toPrecision(4) : "");
+
+// Swept value or step from SI to the typed unit; a temperature step is a difference
+function toDisplay(variable: SweepVariable, si: number, units: UnitPrefs, isStep = false) {
+  const q = VARIABLE_QUANTITY[variable];
+  if (q === "temperature" && isStep) return si / temperatureDeltaScale(units.temperature);
+  return q ? fromSI(q, si, units[q]) : si;
+}
+function fromDisplay(variable: SweepVariable, v: number, units: UnitPrefs, isStep = false) {
+  const q = VARIABLE_QUANTITY[variable];
+  if (q === "temperature" && isStep) return v * temperatureDeltaScale(units.temperature);
+  return q ? toSI(q, v, units[q]) : v;
+}
+
+function defaultBufs(variable: SweepVariable, units: UnitPrefs) {
+  const [from, to, step] = DEFAULT_RANGE[variable];
+  const shown = (v: number, isStep = false) => String(sig(toDisplay(variable, v, units, isStep)));
+  return { from: shown(from), to: shown(to), step: shown(step, true) };
+}
+
+/**
+ * Steps one input of the solved calculation over a range, solving at every
+ * step, and shows the chosen outputs as a table and as line charts.
+ */
+export default function Sweep({ inputs, units }: { inputs: DuctInputs; units: UnitPrefs }) {
+  const [variable, setVariable] = useState<SweepVariable>("flow");
+  const [bufs, setBufs] = useState(() => defaultBufs("flow", units));
+  const [outputs, setOutputs] = useState<Output[]>(["velocity", "dp"]);
+  const [run, setRun] = useState<{ inputs: DuctInputs; variable: SweepVariable; points: SweepPoint[] } | null>(null);
+  const [error, setError] = useState("");
+
+  useUnitChange(units, (from, to) => {
+    const q = VARIABLE_QUANTITY[variable];
+    if (!q) return;
+    setBufs((b) => {
+      if (q !== "temperature") {
+        const conv = (t: string) => convertUnitText(q, t, from[q], to[q]);
+        return { from: conv(b.from), to: conv(b.to), step: conv(b.step) };
+      }
+      const n = Number(b.step);
+      const step =
+        b.step.trim() === "" || !Number.isFinite(n)
+          ? b.step
+          : String(sig((n * temperatureDeltaScale(from.temperature)) / temperatureDeltaScale(to.temperature)));
+      const conv = (t: string) => convertUnitText("temperature", t, from.temperature, to.temperature);
+      return { from: conv(b.from), to: conv(b.to), step };
+    });
+  });
+
+  const variables = (Object.keys(SWEEP_VARIABLES) as SweepVariable[]).filter(
+    (v) => inputs.shape === "rectangular" || (v !== "width" && v !== "height")
+  );
+
+  const changeVariable = (v: SweepVariable) => {
+    setVariable(v);
+    setBufs(defaultBufs(v, units));
+  };
+  // Chosen outputs stay in table order
+  const toggleOutput = (o: Output) =>
+    setOutputs((os) =>
+      os.includes(o) ? os.filter((x) => x !== o) : (Object.keys(OUTPUTS) as Output[]).filter((x) => x === o || os.includes(x))
+    );
+
+  const handleRun = () => {
+    const spec: SweepSpec = {
+      variable,
+      from: fromDisplay(variable, safeNum(bufs.from, NaN), units),
+      to: fromDisplay(variable, safeNum(bufs.to, NaN), units),
+      step: fromDisplay(variable, safeNum(bufs.step, NaN), units, true),
+    };
+    const problem = sweepError(spec, inputs);
+    setError(problem ?? "");
+    if (!problem) setRun({ inputs, variable, points: runSweep(inputs, spec) });
+  };
+
+  // Display value of an output, or a swept input
+  const outputValue = (o: Output, p: SweepPoint) => {
+    const v = OUTPUTS[o].of(p);
+    const q = OUTPUTS[o].quantity;
+    return v == null ? NaN : q ? fromSI(q, v, units[q]) : v;
+  };
+  const unitOf = (q: Quantity | null) => (q ? units[q] : "");
+  const variableUnit = (v: SweepVariable) => (VARIABLE_QUANTITY[v] ? unitOf(VARIABLE_QUANTITY[v]) : "%");
+  const variableValue = (v: SweepVariable, si: number) => toDisplay(v, si, units);
+
+  function handleExport() {
+    if (!run) return;
+    const header = [
+      `${SWEEP_VARIABLES[run.variable]} (${variableUnit(run.variable)})`,
+      "Size",
+      ...outputs.map((o) => (OUTPUTS[o].quantity ? `${OUTPUTS[o].label} (${unitOf(OUTPUTS[o].quantity)})` : OUTPUTS[o].label)),
+      "Warnings",
+    ];
+    const rows = run.points.map((p) => [
+      sig(variableValue(run.variable, p.value)),
+      p.result ? sectionLabel(p.result, units) : "",
+      ...outputs.map((o) => sig(outputValue(o, p))),
+      p.warnings.join(" "),
+    ]);
+    exportCSV(`ductulator-sweep-${run.variable}.csv`, [header, ...rows]);
+  }
+
+  return (
+    <div className="rounded border p-3 text-sm">
+      <div className="mb-2 font-medium">Parameter sweep</div>
+      <div className="mb-3 flex flex-wrap items-end gap-3">
+        <div>
+          <Label className="mb-1 block">Vary</Label>
+          <Select value={variable} onValueChange={(v) => changeVariable(v as SweepVariable)}>
+            <SelectTrigger className="w-[170px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {variables.map((v) => (
+                <SelectItem key={v} value={v}>
+                  {SWEEP_VARIABLES[v]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        {(["from", "to", "step"] as const).map((k) => (
+          <div key={k}>
+            <Label className="mb-1 block">
+              {k === "from" ? "From" : k === "to" ? "To" : "Step"} ({variableUnit(variable)})
+            </Label>
+            <Input
+              className="w-[100px]"
+              value={bufs[k]}
+              onChange={(e) => setBufs((b) => ({ ...b, [k]: e.target.value }))}
+              onKeyDown={(e) => e.key === "Enter" && handleRun()}
+            />
+          </div>
+        ))}
+        <Button onClick={handleRun}>Run sweep</Button>
+        <Button variant="ghost" onClick={handleExport} disabled={!run}>
+          Export CSV
+        </Button>
+      </div>
+
+      <div className="mb-3 flex flex-wrap items-center gap-1">
+        <span className="mr-1 text-xs text-slate-500">Outputs</span>
+        {(Object.keys(OUTPUTS) as Output[]).map((o) => (
+          <Button key={o} variant={outputs.includes(o) ? "secondary" : "ghost"} size="sm" onClick={() => toggleOutput(o)}>
+            {OUTPUTS[o].label}
+          </Button>
+        ))}
+      </div>
+
+      {error && <div className="mb-2 rounded border-l-4 border-amber-400 bg-amber-50 p-2 text-amber-800">{error}</div>}
+      {run && run.inputs !== inputs && (
+        <div className="mb-2 text-xs text-yellow-800">The calculation has changed since this sweep — run it again.</div>
+      )}
+
+      {run && (
+        <>
+          {!!outputs.length && (
+            <div className="mb-3 grid gap-3 md:grid-cols-2">
+              {outputs.map((o) => (
+                <SweepChart
+                  key={o}
+                  title={OUTPUTS[o].quantity ? `${OUTPUTS[o].label} (${unitOf(OUTPUTS[o].quantity)})` : OUTPUTS[o].label}
+                  xLabel={`${SWEEP_VARIABLES[run.variable]} (${variableUnit(run.variable)})`}
+                  points={run.points.map((p) => ({ x: variableValue(run.variable, p.value), y: outputValue(o, p) }))}
+                />
+              ))}
+            </div>
+          )}
+
+          <div className="max-h-[50vh] overflow-auto">
+            <table className="w-full">
+              <thead>
+                <tr className="text-left text-slate-500">
+                  <th className="p-1 font-normal">
+                    {SWEEP_VARIABLES[run.variable]} ({variableUnit(run.variable)})
+                  </th>
+                  <th className="p-1 font-normal">Size</th>
+                  {outputs.map((o) => (
+                    <th key={o} className="p-1 font-normal">
+                      {OUTPUTS[o].label}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {run.points.map((p, i) => (
+                  <tr key={i} className="border-t" title={p.warnings.join("\n")}>
+                    <td className="p-1">{sig(variableValue(run.variable, p.value))}</td>
+                    <td className="p-1 whitespace-nowrap">
+                      {p.result ? sectionLabel(p.result, units) : "—"}
+                      {!!p.warnings.length && <span className="ml-1 text-amber-700">⚠</span>}
+                    </td>
+                    {outputs.map((o) => {
+                      const v = OUTPUTS[o].of(p);
+                      const q = OUTPUTS[o].quantity;
+                      return (
+                        <td key={o} className="p-1 whitespace-nowrap">
+                          {v == null ? "—" : q ? formatQuantity(q, v, units[q]) : o === "friction" ? v.toFixed(5) : v.toFixed(0)}
+                        </td>
+                      );
+                    })}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+// ---------- line chart ----------
+const CW = 320;
+const CH = 180;
+const CPAD = { left: 48, right: 10, top: 10, bottom: 30 };
+
+// Round-number axis ticks, about five across the span
+function niceTicks(lo: number, hi: number) {
+  if (hi <= lo) return [lo];
+  const raw = (hi - lo) / 5;
+  const mag = Math.pow(10, Math.floor(Math.log10(raw)));
+  const step = [1, 2, 5, 10].map((m) => m * mag).find((s) => s >= raw) ?? raw;
+  const out: number[] = [];
+  for (let v = Math.ceil(lo / step) * step; v <= hi + step * 1e-6; v += step) out.push(+v.toPrecision(6));
+  return out;
+}
+
+function SweepChart({ title, xLabel, points }: { title: string; xLabel: string; points: { x: number; y: number }[] }) {
+  const ok = points.filter((p) => Number.isFinite(p.x) && Number.isFinite(p.y));
+  if (ok.length < 2) {
+    return <div className="rounded border p-2 text-xs text-slate-500">{title}: not enough solved points to chart.</div>;
+  }
+  const xs = ok.map((p) => p.x);
+  const ys = ok.map((p) => p.y);
+  const [x0, x1] = [Math.min(...xs), Math.max(...xs)];
+  let [y0, y1] = [Math.min(...ys), Math.max(...ys)];
+  if (y1 === y0) {
+    const pad = Math.abs(y0) * 0.1 || 1;
+    [y0, y1] = [y0 - pad, y1 + pad];
+  }
+  const plotW = CW - CPAD.left - CPAD.right;
+  const plotH = CH - CPAD.top - CPAD.bottom;
+  const x = (v: number) => CPAD.left + ((v - x0) / (x1 - x0 || 1)) * plotW;
+  const y = (v: number) => CPAD.top + (1 - (v - y0) / (y1 - y0)) * plotH;
+
+  // Unsolved points break the line rather than joining across them
+  let d = "";
+  let pen = false;
+  for (const p of points) {
+    if (!Number.isFinite(p.x) || !Number.isFinite(p.y)) {
+      pen = false;
+      continue;
+    }
+    d += `${pen ? "L" : "M"}${x(p.x).toFixed(1)},${y(p.y).toFixed(1)}`;
+    pen = true;
+  }
+
+  return (
+    <div className="rounded border p-2">
+      <div className="mb-1 text-xs font-medium">{title}</div>
+      <svg viewBox={`0 0 ${CW} ${CH}`} className="h-auto w-full" role="img" aria-label={title}>
+        <rect x={CPAD.left} y={CPAD.top} width={plotW} height={plotH} fill="white" stroke="#cbd5e1" />
+        {niceTicks(y0, y1).map((t) => (
+          <g key={`y${t}`}>
+            <line x1={CPAD.left} x2={CPAD.left + plotW} y1={y(t)} y2={y(t)} stroke="#f1f5f9" />
+            <text x={CPAD.left - 4} y={y(t) + 3} fontSize={9} textAnchor="end" fill="#64748b">
+              {sig(t)}
+            </text>
+          </g>
+        ))}
+        {niceTicks(x0, x1).map((t) => (
+          <text key={`x${t}`} x={x(t)} y={CPAD.top + plotH + 12} fontSize={9} textAnchor="middle" fill="#64748b">
+            {sig(t)}
+          </text>
+        ))}
+        <text x={CPAD.left + plotW / 2} y={CH - 3} fontSize={10} textAnchor="middle" fill="#334155">
+          {xLabel}
+        </text>
+        <path d={d} fill="none" stroke="#0f766e" strokeWidth={1.5} />
+        {ok.map((p, i) => (
+          <circle key={i} cx={x(p.x)} cy={y(p.y)} r={2} fill="#0f766e" />
+        ))}
+      </svg>
+    </div>
+  );
+}
@@ -0,0 +1,136 @@
+"use client";
+
+import React, { useState } from "react";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectTrigger,
+  SelectValue,
+  SelectContent,
+  SelectItem,
+} from "@/components/ui/select";
+import {
+  INSULATION_TYPES,
+  convertUnit,
+  convertUnitText,
+  ductHeatTransfer,
+  formatQuantity,
+  safeNum,
+  toSI,
+  type DuctConditions,
+  type DuctSection,
+  type UnitPrefs,
+} from "@/lib/ductulator";
+import { useUnitChange } from "@/hooks/use-unit-change";
+
+/**
+ * Heat picked up or lost along the run, with the outer surface checked
+ * against the ambient dew point.
+ */
+export default function Thermal({
+  section,
+  flow_m3s,
+  length_m,
+  conditions,
+  units,
+}: {
+  section: DuctSection;
+  flow_m3s: number;
+  length_m: number;
+  conditions: DuctConditions;
+  units: UnitPrefs;
+}) {
+  const [insulation, setInsulation] = useState<string>("Nitrile rubber");
+  // Kept as typed in the current units
+  const [bufThickness, setBufThickness] = useState(() => String(convertUnit("length", 25, "mm", units.length)));
+  const [bufAmbientT, setBufAmbientT] = useState(() => String(convertUnit("temperature", 25, "°C", units.temperature)));
+  const [bufAmbientRH, setBufAmbientRH] = useState("60");
+
+  useUnitChange(units, (from, to) => {
+    setBufThickness((b) => convertUnitText("length", b, from.length, to.length));
+    setBufAmbientT((b) => convertUnitText("temperature", b, from.temperature, to.temperature));
+  });
+
+  const result = ductHeatTransfer(section, flow_m3s, conditions, {
+    length_m,
+    insulation: INSULATION_TYPES[insulation],
+    thickness_mm: toSI("length", safeNum(bufThickness, 0), units.length),
+    ambientT: toSI("temperature", safeNum(bufAmbientT, 20), units.temperature),
+    ambientRH: Math.min(Math.max(safeNum(bufAmbientRH, 50), 0), 100),
+  });
+  const temp = (v: number) => formatQuantity("temperature", v, units.temperature);
+
+  return (
+    <div className="mt-3 border-t pt-3">
+      <div className="mb-2 flex flex-wrap items-end gap-2">
+        <div className="text-sm font-medium">Heat gain / loss</div>
+        <div className="ml-auto">
+          <Label className="mb-1 block text-xs">Insulation</Label>
+          <Select value={insulation} onValueChange={setInsulation}>
+            <SelectTrigger className="w-[200px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.keys(INSULATION_TYPES).map((name) => (
+                <SelectItem key={name} value={name}>
+                  {name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div>
+          <Label className="mb-1 block text-xs">Thickness ({units.length})</Label>
+          <Input className="w-[80px]" value={bufThickness} onChange={(e) => setBufThickness(e.target.value)} />
+        </div>
+        <div>
+          <Label className="mb-1 block text-xs">Ambient ({units.temperature})</Label>
+          <Input className="w-[80px]" value={bufAmbientT} onChange={(e) => setBufAmbientT(e.target.value)} />
+        </div>
+        <div>
+          <Label className="mb-1 block text-xs">Ambient RH (%)</Label>
+          <Input className="w-[70px]" value={bufAmbientRH} onChange={(e) => setBufAmbientRH(e.target.value)} />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-x-4 gap-y-1 text-xs">
+        <div>Air in → out</div>
+        <div className="text-right">
+          {temp(conditions.temperature)} → {temp(result.outletT)}
+        </div>
+        <div>{result.heatGain >= 0 ? "Heat gain" : "Heat loss"}</div>
+        <div className="text-right">{formatQuantity("power", Math.abs(result.heatGain), units.power)}</div>
+        <div>Outer surface (coldest) / ambient dew point</div>
+        <div className={result.condensation ? "text-right text-red-700" : "text-right"}>
+          {temp(result.surfaceT)} / {temp(result.ambientDewPoint)}
+        </div>
+        <div>Inner wall (coldest) / air dew point</div>
+        <div className={result.internalCondensation ? "text-right text-red-700" : "text-right"}>
+          {temp(result.innerSurfaceT)} / {temp(result.airDewPoint)}
+        </div>
+        <div>Minimum insulation to stay dry</div>
+        <div className="text-right">
+          {result.minThickness_mm == null
+            ? "more than this insulation can give"
+            : formatQuantity("length", result.minThickness_mm, units.length)}
+        </div>
+      </div>
+
+      <div className="mt-2 flex items-center gap-2 text-xs">
+        <Badge variant={result.condensation || result.internalCondensation ? "destructive" : "secondary"}>
+          {result.condensation || result.internalCondensation ? "Condensation" : "Dry"}
+        </Badge>
+        <span className="text-slate-500">
+          Still air outside the duct; the sheet-metal wall adds no resistance.
+        </span>
+      </div>
+      {result.warnings.map((w, i) => (
+        <div key={i} className="mt-2 rounded border-l-4 border-amber-400 bg-amber-50 p-2 text-xs text-amber-800">
+          {w}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,19 @@
+// =========================== CSV helper ===========================
+// Quote cells that would otherwise break the row (names with commas etc.)
+function csvCell(v: string | number) {
+  const s = String(v);
+  return /[",\r\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+export function exportCSV(filename: string, rows: (string | number)[][]) {
+  downloadText(filename, rows.map((r) => r.map(csvCell).join(",")).join("\n"), "text/csv;charset=utf-8;");
+}
+
+/** Save text as a file through the browser's download. */
+export function downloadText(filename: string, text: string, type: string) {
+  const blob = new Blob([text], { type });
+  const link = document.createElement("a");
+  link.href = URL.createObjectURL(blob);
+  link.download = filename;
+  link.click();
+}
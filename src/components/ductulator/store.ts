@@ -0,0 +1,44 @@
+import type { Project } from "@/lib/ductulator";
+
+// ====================== project storage ======================
+// Projects live in IndexedDB, one record per project, calculations inside.
+const DB_NAME = "ductulator";
+const STORE = "projects";
+
+let db: Promise<IDBDatabase> | null = null;
+
+function openDB() {
+  db ??= new Promise((resolve, reject) => {
+    const req = indexedDB.open(DB_NAME, 1);
+    req.onupgradeneeded = () => req.result.createObjectStore(STORE, { keyPath: "id" });
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => {
+      db = null;
+      reject(req.error);
+    };
+  });
+  return db;
+}
+
+async function run<T>(mode: IDBTransactionMode, op: (store: IDBObjectStore) => IDBRequest<T>) {
+  const store = (await openDB()).transaction(STORE, mode).objectStore(STORE);
+  return new Promise<T>((resolve, reject) => {
+    const req = op(store);
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+/** Every saved project, oldest first. */
+export async function loadProjects() {
+  const all = await run<Project[]>("readonly", (s) => s.getAll());
+  return all.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+export async function putProject(project: Project) {
+  await run("readwrite", (s) => s.put(project));
+}
+
+export async function removeProject(id: string) {
+  await run("readwrite", (s) => s.delete(id));
+}
@@ -0,0 +1,42 @@
+import { useEffect, useRef, useState } from "react"
+
+/**
+ * useState persisted to localStorage under key. The stored value is read after
+ * mount (so server and first client render agree) and passed through parse,
+ * which should return null for anything it does not recognise.
+ */
+export function useStoredState<T>(
+  key: string,
+  initial: T,
+  parse: (raw: string) => T | null,
+  serialize: (value: T) => string = JSON.stringify
+) {
+  const [value, setValue] = useState<T>(initial)
+  const [loaded, setLoaded] = useState(false)
+  const parser = useRef(parse)
+  parser.current = parse
+  const serializer = useRef(serialize)
+  serializer.current = serialize
+
+  useEffect(() => {
+    try {
+      const raw = window.localStorage.getItem(key)
+      const stored = raw == null ? null : parser.current(raw)
+      if (stored != null) setValue(stored)
+    } catch {
+      // Storage blocked (private mode etc.): keep the in-memory value
+    }
+    setLoaded(true)
+  }, [key])
+
+  useEffect(() => {
+    if (!loaded) return
+    try {
+      window.localStorage.setItem(key, serializer.current(value))
+    } catch {
+      // Quota or privacy settings; the value still lives for this session
+    }
+  }, [key, value, loaded])
+
+  return [value, setValue] as const
+}
@@ -0,0 +1,18 @@
+import { useEffect, useRef } from "react"
+import type { UnitPrefs } from "@/lib/ductulator"
+
+/**
+ * Calls onChange(from, to) whenever the display units change, so editors that
+ * keep typed text can re-express it in the new units.
+ */
+export function useUnitChange(units: UnitPrefs, onChange: (from: UnitPrefs, to: UnitPrefs) => void) {
+  const prev = useRef(units)
+  const handler = useRef(onChange)
+  handler.current = onChange
+
+  useEffect(() => {
+    const from = prev.current
+    prev.current = units
+    if (from !== units) handler.current(from, units)
+  }, [units])
+}
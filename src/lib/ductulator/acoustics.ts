@@ -0,0 +1,169 @@
+import { hydraulicDiameter_m, sectionArea_m2, type DuctSection } from "./geometry";
+
+// ======================== flow-generated noise ========================
+// Octave-band centre frequencies, Hz. Every spectrum below is one level per band.
+export const OCTAVE_BANDS = [63, 125, 250, 500, 1000, 2000, 4000, 8000];
+
+export type Spectrum = number[]; // dB
+
+const SPEED_OF_SOUND = 343; // m/s
+const W_REF = 1e-12; // W
+
+/** Energy sum of levels in dB. */
+export function sumLevels(levels: number[]) {
+  const e = levels.filter(Number.isFinite).reduce((a, L) => a + 10 ** (L / 10), 0);
+  return e > 0 ? 10 * Math.log10(e) : -Infinity;
+}
+
+/** Band-by-band energy sum of several spectra. */
+export function addSpectra(spectra: Spectrum[]): Spectrum {
+  return OCTAVE_BANDS.map((_, i) => sumLevels(spectra.map((s) => s[i])));
+}
+
+// Spread an overall level over the octave bands with a Strouhal-scaled shape
+// (flat below St0, falling 6 dB/octave above), keeping the overall level.
+function spreadOverBands(overall: number, Dh_m: number, V: number, st0: number): Spectrum {
+  const shape = OCTAVE_BANDS.map((f) => -10 * Math.log10(1 + ((f * Dh_m) / V / st0) ** 2));
+  const norm = sumLevels(shape);
+  return shape.map((d) => overall + d - norm);
+}
+
+/**
+ * Sound power of a straight duct from the VDI 2081 scaling
+ * Lw = 7 + 50 lg V + 10 lg A (V in m/s, A in m²).
+ */
+export function straightDuctSoundPower(section: DuctSection, V: number): Spectrum {
+  const A = sectionArea_m2(section);
+  if (!(V > 0) || !(A > 0)) return OCTAVE_BANDS.map(() => -Infinity);
+  const overall = 7 + 50 * Math.log10(V) + 10 * Math.log10(A);
+  return spreadOverBands(overall, hydraulicDiameter_m(section), V, 1);
+}
+
+/**
+ * Regenerated sound power of a fitting with loss coefficient K, from dipole
+ * scaling W ≈ 1e-3 · K² · ρ · A · V⁶ / c³ (calibrated against typical
+ * published elbow and damper data; an estimate, not a test result).
+ */
+export function fittingSoundPower(section: DuctSection, V: number, k: number, rho: number): Spectrum {
+  const A = sectionArea_m2(section);
+  if (!(V > 0) || !(A > 0) || !(k > 0)) return OCTAVE_BANDS.map(() => -Infinity);
+  const W = (1e-3 * k * k * rho * A * V ** 6) / SPEED_OF_SOUND ** 3;
+  return spreadOverBands(10 * Math.log10(W / W_REF), hydraulicDiameter_m(section), V, 0.5);
+}
+
+// ======================== room criteria ========================
+export type NoiseMetric = "NC" | "NR";
+
+// NC curves (Beranek), octave bands 63 Hz – 8 kHz
+const NC_CURVES: Record<number, Spectrum> = {
+  15: [47, 36, 29, 22, 17, 14, 12, 11],
+  20: [51, 40, 33, 26, 22, 19, 17, 16],
+  25: [54, 44, 37, 31, 27, 24, 22, 21],
+  30: [57, 48, 41, 35, 31, 29, 28, 27],
+  35: [60, 52, 45, 40, 36, 34, 33, 32],
+  40: [64, 56, 50, 45, 41, 39, 38, 37],
+  45: [67, 60, 54, 49, 46, 44, 43, 42],
+  50: [71, 64, 58, 54, 51, 49, 48, 47],
+  55: [74, 67, 62, 58, 56, 54, 53, 52],
+  60: [77, 71, 67, 63, 61, 59, 58, 57],
+  65: [80, 75, 71, 68, 66, 64, 63, 62],
+};
+const NC_LEVELS = Object.keys(NC_CURVES).map(Number);
+
+// NR curves: L = a + b · NR per band (ISO R 1996)
+const NR_A = [35.5, 22, 12, 4.8, 0, -3.5, -6.1, -8];
+const NR_B = [0.79, 0.87, 0.93, 0.974, 1, 1.015, 1.025, 1.03];
+
+// NC curve for one band, interpolated (or extrapolated) from the tabulated curves
+function ncBand(level: number, band: number) {
+  const found = NC_LEVELS.findIndex((n) => n >= level);
+  const i = Math.max(found < 0 ? NC_LEVELS.length - 1 : found, 1);
+  const lo = NC_LEVELS[i - 1];
+  const hi = NC_LEVELS[i];
+  const t = (level - lo) / (hi - lo);
+  return NC_CURVES[lo][band] + t * (NC_CURVES[hi][band] - NC_CURVES[lo][band]);
+}
+
+/** Band limits of an NC or NR curve. */
+export function criterionCurve(metric: NoiseMetric, level: number): Spectrum {
+  return OCTAVE_BANDS.map((_, i) => (metric === "NR" ? NR_A[i] + NR_B[i] * level : ncBand(level, i)));
+}
+
+/** Lowest NC/NR curve the spectrum stays under in every band, to 1 dB. */
+export function noiseRating(metric: NoiseMetric, lp: Spectrum) {
+  if (metric === "NR") return Math.max(...lp.map((L, i) => Math.ceil((L - NR_A[i]) / NR_B[i])));
+  for (let n = 0; n <= 100; n++) {
+    if (criterionCurve("NC", n).every((limit, i) => !(lp[i] > limit))) return n;
+  }
+  return Infinity;
+}
+
+export interface RoomType {
+  metric: NoiseMetric;
+  level: number;
+  volume_m3: number;
+  distance_m: number; // listener to outlet
+}
+
+// Typical design criteria (ASHRAE / CIBSE guidance)
+export const ROOM_TYPES: Record<string, RoomType> = {
+  "Private office": { metric: "NC", level: 30, volume_m3: 50, distance_m: 1.5 },
+  "Open-plan office": { metric: "NC", level: 40, volume_m3: 500, distance_m: 2 },
+  "Conference room": { metric: "NC", level: 25, volume_m3: 120, distance_m: 2 },
+  Classroom: { metric: "NC", level: 25, volume_m3: 200, distance_m: 3 },
+  "Hotel bedroom": { metric: "NR", level: 25, volume_m3: 60, distance_m: 1.5 },
+  "Hospital ward": { metric: "NR", level: 30, volume_m3: 80, distance_m: 1.5 },
+  Restaurant: { metric: "NR", level: 40, volume_m3: 300, distance_m: 2 },
+  Workshop: { metric: "NR", level: 55, volume_m3: 1000, distance_m: 3 },
+};
+
+/**
+ * Room sound pressure from the sound power entering it (Schultz, SI form):
+ * Lp = Lw − 10 lg r − 5 lg V − 3 lg f + 12.
+ */
+export function roomSoundPressure(lw: Spectrum, volume_m3: number, distance_m: number): Spectrum {
+  const r = Math.max(distance_m, 0.5);
+  const V = Math.max(volume_m3, 1);
+  return lw.map((L, i) => L - 10 * Math.log10(r) - 5 * Math.log10(V) - 3 * Math.log10(OCTAVE_BANDS[i]) + 12);
+}
+
+export interface NoiseSource {
+  label: string;
+  lw: Spectrum;
+}
+
+export interface NoiseCheck {
+  sources: (NoiseSource & { lp: Spectrum; rating: number; exceeds: boolean })[];
+  lw: Spectrum; // all sources
+  lp: Spectrum; // in the room
+  criterion: Spectrum;
+  rating: number;
+  exceeds: boolean;
+  warnings: string[];
+}
+
+/**
+ * Compare the sound reaching the room against its NC/NR criterion, source by
+ * source and combined. Duct attenuation between source and room is ignored,
+ * so the check errs on the noisy side.
+ */
+export function checkNoise(sources: NoiseSource[], room: RoomType): NoiseCheck {
+  const criterion = criterionCurve(room.metric, room.level);
+  const toRoom = (lw: Spectrum) => roomSoundPressure(lw, room.volume_m3, room.distance_m);
+  const exceeded = (lp: Spectrum) => lp.some((L, i) => L > criterion[i]);
+
+  const rated = sources.map((s) => {
+    const lp = toRoom(s.lw);
+    return { ...s, lp, rating: noiseRating(room.metric, lp), exceeds: exceeded(lp) };
+  });
+  const lw = addSpectra(sources.map((s) => s.lw));
+  const lp = toRoom(lw);
+  const rating = noiseRating(room.metric, lp);
+  const warnings = rated
+    .filter((s) => s.exceeds)
+    .map((s) => `${s.label}: ${room.metric} ${s.rating} exceeds the ${room.metric} ${room.level} target.`);
+  if (exceeded(lp) && !warnings.length) {
+    warnings.push(`Combined noise ${room.metric} ${rating} exceeds the ${room.metric} ${room.level} target.`);
+  }
+  return { sources: rated, lw, lp, criterion, rating, exceeds: exceeded(lp), warnings };
+}
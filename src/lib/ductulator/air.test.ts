@@ -0,0 +1,30 @@
+import { describe, expect, it } from "vitest";
+import { airProfileError, altitudeToPressurePa, dewPointC, maxRHPercent, moistAirDensity, psychrometrics } from "./air";
+
+const P = 101325;
+
+describe("moist air above the boiling point", () => {
+  it("never lets the vapour pressure exceed the barometric pressure", () => {
+    const dry = moistAirDensity(P, 200, 0);
+    const steam = moistAirDensity(P, 200, 50); // asks for a vapour pressure of ~0.9 MPa
+    expect(dry).toBeCloseTo(0.7461, 3);
+    expect(steam).toBeCloseTo(P / (461.495 * 473.15), 6);
+    expect(steam).toBeLessThan(dry);
+  });
+
+  it("keeps the dew point at or below the local boiling point", () => {
+    const p = altitudeToPressurePa(1500);
+    const boiling = dewPointC(p, 100, 100);
+    expect(boiling).toBeGreaterThan(94);
+    expect(boiling).toBeLessThan(96);
+    expect(psychrometrics(p, 100, 100).dewPoint).toBeCloseTo(boiling, 9);
+    expect(dewPointC(P, 20, 50)).toBeCloseTo(9.26, 1);
+  });
+
+  it("limits RH to what the air can hold", () => {
+    expect(maxRHPercent(P, 20)).toBe(100);
+    expect(maxRHPercent(P, 200)).toBeLessThan(10);
+    expect(airProfileError("Dryer exhaust", { T: 200, RH: 50, altitude: 0 })).toMatch(/at most/);
+    expect(airProfileError("Dryer exhaust", { T: 200, RH: 5, altitude: 0 })).toBeNull();
+  });
+});
@@ -0,0 +1,213 @@
+// ===================== air properties =====================
+export const STANDARD_PRESSURE_PA = 101325;
+
+/** ICAO standard atmosphere (troposphere): barometric pressure at an altitude in metres. */
+export function altitudeToPressurePa(altitude_m: number) {
+  return STANDARD_PRESSURE_PA * Math.pow(1 - 2.25577e-5 * altitude_m, 5.25588);
+}
+
+/** Inverse of altitudeToPressurePa. */
+export function pressureToAltitudeM(pressurePa: number) {
+  return (1 - Math.pow(pressurePa / STANDARD_PRESSURE_PA, 1 / 5.25588)) / 2.25577e-5;
+}
+
+export function saturationVaporPressurePa(Tc: number) {
+  // Magnus (Tetens-like) approximation
+  return 610.94 * Math.exp((17.625 * Tc) / (243.04 + Tc));
+}
+
+/**
+ * Highest RH (%) the air can have: 100 % up to the boiling point, then less,
+ * since the vapour pressure can never exceed the barometric pressure.
+ */
+export function maxRHPercent(pressurePa: number, Tc: number) {
+  return Math.min(100, (100 * pressurePa) / saturationVaporPressurePa(Tc));
+}
+
+// Partial pressure of the water vapour, capped at the barometric pressure
+function vapourPressurePa(pressurePa: number, Tc: number, RHpercent: number) {
+  return Math.min((RHpercent / 100) * saturationVaporPressurePa(Tc), pressurePa);
+}
+
+/**
+ * Dew point in °C: the temperature whose saturation pressure equals the vapour
+ * pressure. Never above the boiling point at the barometric pressure.
+ */
+export function dewPointC(pressurePa: number, Tc: number, RHpercent: number) {
+  const pv = vapourPressurePa(pressurePa, Tc, Math.max(RHpercent, 0.01));
+  const g = Math.log(pv / 610.94); // inverse of the Magnus form above
+  return (243.04 * g) / (17.625 - g);
+}
+
+export function moistAirDensity(pressurePa: number, Tc: number, RHpercent: number) {
+  const T = Tc + 273.15;
+  const Rd = 287.058;
+  const Rv = 461.495;
+  const pv = vapourPressurePa(pressurePa, Tc, RHpercent); // partial pressure water vapor
+  const pd = pressurePa - pv; // dry air partial pressure
+  return pd / (Rd * T) + pv / (Rv * T);
+}
+
+export function dynamicViscosityAir(Tc: number) {
+  // Sutherland’s law
+  const T = Tc + 273.15;
+  const mu0 = 1.716e-5; // Pa·s at 0°C
+  const T0 = 273.15;
+  const S = 110.4;
+  return mu0 * Math.pow(T / T0, 1.5) * ((T0 + S) / (T + S));
+}
+
+// ===================== psychrometrics =====================
+const CP_DRY_AIR = 1006; // J/(kg·K)
+const CP_VAPOUR = 1860; // J/(kg·K)
+const H_FG = 2501e3; // J/kg, latent heat of vaporisation at 0 °C
+
+/** kg of water vapour per kg of dry air. */
+export function humidityRatio(pressurePa: number, Tc: number, RHpercent: number) {
+  const pv = vapourPressurePa(pressurePa, Tc, RHpercent);
+  return (0.621945 * pv) / Math.max(pressurePa - pv, 1);
+}
+
+/** Thermodynamic wet-bulb temperature in °C, from the psychrometric equation. */
+export function wetBulbC(pressurePa: number, Tc: number, RHpercent: number) {
+  const W = humidityRatio(pressurePa, Tc, RHpercent);
+  // Humidity ratio the air would have if it had this wet bulb; rises with Twb
+  const wFor = (Twb: number) => {
+    const Ws = humidityRatio(pressurePa, Twb, 100);
+    return ((2501 - 2.326 * Twb) * Ws - 1.006 * (Tc - Twb)) / (2501 + 1.86 * Tc - 4.186 * Twb);
+  };
+  let lo = Math.min(dewPointC(pressurePa, Tc, RHpercent), Tc) - 1;
+  let hi = Tc;
+  for (let i = 0; i < 50; i++) {
+    const mid = (lo + hi) / 2;
+    if (wFor(mid) < W) lo = mid;
+    else hi = mid;
+  }
+  return (lo + hi) / 2;
+}
+
+export interface PsychroState {
+  humidityRatio: number; // kg/kg dry air
+  dewPoint: number; // °C
+  wetBulb: number; // °C
+  enthalpy: number; // J/kg dry air, 0 at 0 °C dry air
+  specificVolume: number; // m³/kg dry air
+  density: number; // kg/m³ of moist air
+  viscosity: number; // Pa·s
+}
+
+/** Everything derivable from dry-bulb, RH and barometric pressure. */
+export function psychrometrics(pressurePa: number, Tc: number, RHpercent: number): PsychroState {
+  const W = humidityRatio(pressurePa, Tc, RHpercent);
+  return {
+    humidityRatio: W,
+    dewPoint: dewPointC(pressurePa, Tc, RHpercent),
+    wetBulb: wetBulbC(pressurePa, Tc, RHpercent),
+    enthalpy: CP_DRY_AIR * Tc + W * (H_FG + CP_VAPOUR * Tc),
+    specificVolume: (287.058 * (Tc + 273.15) * (1 + 1.607858 * W)) / pressurePa,
+    density: moistAirDensity(pressurePa, Tc, RHpercent),
+    viscosity: dynamicViscosityAir(Tc),
+  };
+}
+
+export interface AirCapacity {
+  massFlow: number; // kg/s of dry air
+  sensible: number; // W
+  latent: number; // W of moisture condensed when cooling by ΔT
+  leavingT: number; // °C after the change
+}
+
+/**
+ * Sensible and latent load of an airflow changed by ΔT (positive for cooling).
+ * Cooling below the dew point is taken to leave the coil saturated, so the
+ * moisture dropped out is the latent part; heating has no latent part.
+ */
+export function airCapacity(pressurePa: number, Tc: number, RHpercent: number, Q_m3s: number, dT: number): AirCapacity {
+  const s = psychrometrics(pressurePa, Tc, RHpercent);
+  const massFlow = Math.abs(Q_m3s) / s.specificVolume;
+  const leavingT = Tc - dT;
+  const leavingW = Math.min(s.humidityRatio, humidityRatio(pressurePa, leavingT, 100));
+  return {
+    massFlow,
+    sensible: massFlow * (CP_DRY_AIR + CP_VAPOUR * s.humidityRatio) * Math.abs(dT),
+    latent: massFlow * H_FG * (s.humidityRatio - leavingW),
+    leavingT,
+  };
+}
+
+// ===================== design air profiles =====================
+export interface AirProfile {
+  T: number; // °C
+  RH: number; // %
+  altitude: number; // m
+  pressure?: number; // Pa barometric; when given it is used instead of the altitude
+}
+
+/** User-defined profiles by name. */
+export type AirProfileLibrary = Record<string, AirProfile>;
+
+// Design air presets (°C, %RH, site altitude in m)
+export const AIR_PROFILES: Record<string, AirProfile> = {
+  "Office HVAC": { T: 20, RH: 50, altitude: 0 },
+  "Commercial Kitchen": { T: 30, RH: 60, altitude: 0 },
+  "Industrial Process": { T: 40, RH: 30, altitude: 0 },
+  "Cold Storage": { T: 5, RH: 70, altitude: 0 },
+  "High-altitude Site": { T: 20, RH: 40, altitude: 1500 },
+};
+
+/** Barometric pressure a profile stands for, Pa. */
+export function profilePressurePa(p: AirProfile) {
+  return p.pressure ?? altitudeToPressurePa(p.altitude);
+}
+
+// ---------- profile import / export ----------
+// { "ductulatorAirProfiles": 1, "profiles": [{ "name": "Winter supply", "T": 14, "RH": 30, "altitude": 0 }] }
+const PROFILE_FORMAT = 1;
+
+/** Check one profile; returns an error message or null. */
+export function airProfileError(name: string, p: AirProfile) {
+  if (!name.trim()) return "Profile name is empty.";
+  if (Object.hasOwn(AIR_PROFILES, name)) return `${name} is a built-in profile.`;
+  if (!(p.T >= -60 && p.T <= 600)) return `${name}: temperature must be between −60 and 600 °C.`;
+  if (!(p.RH >= 0 && p.RH <= 100)) return `${name}: RH must be between 0 and 100 %.`;
+  if (!(p.altitude >= -500 && p.altitude <= 6000)) return `${name}: altitude must be between −500 and 6000 m.`;
+  if (p.pressure != null && !(p.pressure >= 40000 && p.pressure <= 120000)) {
+    return `${name}: pressure must be between 40 and 120 kPa.`;
+  }
+  const maxRH = maxRHPercent(profilePressurePa(p), p.T);
+  if (p.RH > maxRH) return `${name}: at ${p.T} °C the air can hold at most ${maxRH.toFixed(1)} % RH.`;
+  return null;
+}
+
+export function airProfilesToJSON(library: AirProfileLibrary) {
+  const profiles = Object.entries(library).map(([name, p]) => ({ name, ...p }));
+  return JSON.stringify({ ductulatorAirProfiles: PROFILE_FORMAT, profiles }, null, 2);
+}
+
+/** Read profiles exported by airProfilesToJSON, keeping the valid entries. */
+export function parseAirProfiles(text: string): { profiles: AirProfileLibrary; errors: string[] } {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return { profiles: {}, errors: ["Not a JSON file."] };
+  }
+  const list = (data as { profiles?: unknown } | null)?.profiles;
+  if (!Array.isArray(list)) return { profiles: {}, errors: ["No profiles list in this file."] };
+
+  const profiles: AirProfileLibrary = {};
+  const errors: string[] = [];
+  list.forEach((entry, i) => {
+    const name = typeof entry?.name === "string" ? entry.name.trim() : "";
+    const profile: AirProfile = {
+      T: Number(entry?.T),
+      RH: Number(entry?.RH),
+      altitude: entry?.altitude == null ? 0 : Number(entry.altitude),
+      ...(entry?.pressure != null && { pressure: Number(entry.pressure) }),
+    };
+    const error = name ? airProfileError(name, profile) : `Entry ${i + 1}: profile name is empty.`;
+    if (error) errors.push(error);
+    else profiles[name] = profile;
+  });
+  return { profiles, errors };
+}
@@ -0,0 +1,36 @@
+import { describe, expect, it } from "vitest";
+import { guessColumns, parseCSV, runBatch, type BatchSettings } from "./batch";
+
+const SETTINGS: BatchSettings = {
+  // A material opened from a shared link, not in the library
+  conditions: {
+    temperature: 20,
+    rh: 50,
+    pressure: 101325,
+    material: "Colleague's liner",
+    roughness: 0.003,
+    frictionModel: "colebrook",
+  },
+  library: {},
+  mode: "pressureDrop",
+  units: { length: "mm", flow: "L/s", temperature: "°C", dp: "Pa/m" },
+};
+
+const solve = (csv: string) => {
+  const rows = parseCSV(csv);
+  return runBatch(rows, guessColumns(rows[0]), SETTINGS);
+};
+
+describe("runBatch", () => {
+  it("keeps the page's roughness where the material cell is blank", () => {
+    const [row] = solve("id,width,height,flow,material\nA,400,250,500,\n");
+    expect(row.inputs?.roughness).toBe(0.003);
+    expect(row.warnings).toEqual([]);
+  });
+
+  it("looks a typed material up in the library", () => {
+    const [known, unknown] = solve("id,width,height,flow,material\nA,400,250,500,Galvanised steel\nB,400,250,500,Tin foil\n");
+    expect(known.inputs?.roughness).toBe(0.00015);
+    expect(unknown.warnings[0]).toMatch(/Unknown material "Tin foil"/);
+  });
+});
@@ -0,0 +1,252 @@
+import {
+  MODE_LABELS,
+  NO_MAGIC_LOCKS,
+  calcSectionNums,
+  resultFlow_m3s,
+  solveDuct,
+  type DuctConditions,
+  type DuctInputs,
+  type DuctResult,
+  type Mode,
+  type SectionCalc,
+} from "./engine";
+import type { DuctShape } from "./geometry";
+import { isKnownMaterial, roughnessFor, type MaterialLibrary } from "./materials";
+import { toSI, UNIT_OPTIONS, type FlowUnit, type UnitPrefs } from "./units";
+
+// ===================== batch duct schedules =====================
+// A schedule arrives as CSV with one duct per row. Columns are mapped to the
+// fields below, then every row is solved exactly as a single calculation is.
+
+export type BatchField =
+  | "id"
+  | "shape"
+  | "width"
+  | "height"
+  | "flow"
+  | "unit"
+  | "material"
+  | "T"
+  | "RH"
+  | "targetDp"
+  | "mode";
+
+export const BATCH_FIELDS: Record<BatchField, string> = {
+  id: "Id",
+  shape: "Shape",
+  width: "Width / diameter / major",
+  height: "Height / minor",
+  flow: "Flow",
+  unit: "Flow unit",
+  material: "Material",
+  T: "Temperature",
+  RH: "RH",
+  targetDp: "Target friction",
+  mode: "Mode",
+};
+
+/** Column index for each field; -1 = not in the file. */
+export type ColumnMap = Record<BatchField, number>;
+
+// ---------- CSV reading ----------
+/** Rows of a CSV text: quoted cells may hold commas, quotes ("") and line breaks. */
+export function parseCSV(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+  const src = text.replace(/^\uFEFF/, ""); // spreadsheet byte-order mark
+  for (let i = 0; i < src.length; i++) {
+    const ch = src[i];
+    if (quoted) {
+      if (ch === '"' && src[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (ch === '"') quoted = false;
+      else cell += ch;
+    } else if (ch === '"') quoted = true;
+    else if (ch === ",") {
+      row.push(cell);
+      cell = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && src[i + 1] === "\n") i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else cell += ch;
+  }
+  if (cell || row.length) rows.push([...row, cell]);
+  return rows.filter((r) => r.some((c) => c.trim()));
+}
+
+const normal = (s: string) => s.toLowerCase().replace(/³/g, "3").replace(/[^a-z0-9]/g, "");
+
+// Header names each field is recognised by, most specific first
+const HEADER_ALIASES: Record<BatchField, string[]> = {
+  id: ["id", "tag", "ref", "reference", "name", "duct"],
+  shape: ["shape", "type", "section"],
+  width: ["width", "w", "diameter", "dia", "d", "major"],
+  height: ["height", "h", "depth", "minor"],
+  flow: ["flow", "airflow", "q", "volume", "flowrate"],
+  unit: ["unit", "units", "flowunit"],
+  material: ["material", "mat"],
+  T: ["t", "temp", "temperature"],
+  RH: ["rh", "humidity", "relativehumidity"],
+  targetDp: ["targetpam", "target", "targetdp", "pam", "dp", "friction", "frictionrate"],
+  mode: ["mode", "calc", "calculation"],
+};
+
+/** Best guess at the column of each field from the header row; each column is used once. */
+export function guessColumns(header: string[]): ColumnMap {
+  const names = header.map(normal);
+  const used = new Set<number>();
+  const map = {} as ColumnMap;
+  const find = (test: (name: string, alias: string) => boolean) => (field: BatchField) => {
+    for (const alias of HEADER_ALIASES[field]) {
+      const i = names.findIndex((n, j) => !used.has(j) && test(n, alias));
+      if (i >= 0) return i;
+    }
+    return -1;
+  };
+  // Exact names first, so "flow unit" is not taken as the flow
+  for (const pass of [find((n, a) => n === a), find((n, a) => a.length > 2 && n.startsWith(a))]) {
+    for (const field of Object.keys(BATCH_FIELDS) as BatchField[]) {
+      if (map[field] >= 0) continue;
+      map[field] = pass(field);
+      if (map[field] >= 0) used.add(map[field]);
+    }
+  }
+  return map;
+}
+
+// ---------- row values ----------
+const SHAPE_NAMES: Record<string, DuctShape> = {
+  rectangular: "rectangular",
+  rectangle: "rectangular",
+  rect: "rectangular",
+  round: "round",
+  circular: "round",
+  spiral: "round",
+  flatoval: "flatOval",
+  oval: "flatOval",
+};
+
+const SHORT_MODES: Record<string, Mode> = {
+  pd: "pressureDrop",
+  pressure: "pressureDrop",
+  fixed: "fixedDim",
+  size: "fixedDim",
+  max: "maxFlow",
+};
+
+function readMode(raw: string): Mode | null {
+  const n = normal(raw);
+  const mode = (Object.keys(MODE_LABELS) as Mode[]).find((m) => normal(m) === n || normal(MODE_LABELS[m]) === n);
+  if (mode) return mode;
+  return SHORT_MODES[n] ?? null;
+}
+
+function readFlowUnit(raw: string): FlowUnit | null {
+  return UNIT_OPTIONS.flow.find((u) => normal(u) === normal(raw)) ?? null;
+}
+
+/** How a row's columns are read, where a cell is blank or a column is not mapped. */
+export interface BatchSettings {
+  conditions: DuctConditions; // air, material and friction model
+  library: MaterialLibrary;
+  mode: Mode;
+  units: Pick<UnitPrefs, "length" | "flow" | "temperature" | "dp">; // the file's units, bar the flow unit column
+}
+
+export interface BatchRow {
+  line: number; // 1-based line in the file
+  id: string;
+  cells: string[];
+  inputs: DuctInputs | null;
+  result: DuctResult | null;
+  calc: SectionCalc | null; // the solved section at the flow it carries
+  warnings: string[];
+  errors: string[]; // the row could not be read or solved
+}
+
+function readRow(cells: string[], map: ColumnMap, settings: BatchSettings) {
+  const errors: string[] = [];
+  const cell = (f: BatchField) => (map[f] >= 0 ? (cells[map[f]] ?? "").trim() : "");
+  const num = (f: BatchField, signed = false) => {
+    const raw = cell(f);
+    if (!raw) return null;
+    const n = Number(raw.replace(/\s/g, ""));
+    if (!Number.isFinite(n) || (n < 0 && !signed)) {
+      errors.push(`${BATCH_FIELDS[f]} "${raw}" is not a valid number.`);
+      return null;
+    }
+    return n;
+  };
+
+  const shape = cell("shape") ? SHAPE_NAMES[normal(cell("shape"))] : "rectangular";
+  if (!shape) errors.push(`Unknown shape "${cell("shape")}".`);
+  const mode = cell("mode") ? readMode(cell("mode")) : settings.mode;
+  if (!mode) errors.push(`Unknown mode "${cell("mode")}".`);
+  if (mode === "magic") errors.push("Magic Mode needs locked fields and cannot be run in a batch.");
+  const flowUnit = cell("unit") ? readFlowUnit(cell("unit")) : settings.units.flow;
+  if (!flowUnit) errors.push(`Unknown flow unit "${cell("unit")}".`);
+
+  const { units, conditions } = settings;
+  const len = (n: number | null) => (n == null ? 0 : toSI("length", n, units.length));
+  const a = len(num("width"));
+  const b = len(num("height"));
+  const flow = num("flow") ?? 0;
+  const T = num("T", true);
+  const RH = num("RH");
+  if (RH != null && RH > 100) errors.push("RH must be between 0 and 100 %.");
+  const targetDp = num("targetDp");
+
+  // A blank cell keeps the page's material and roughness; a typed one is looked up in the library
+  const material = cell("material") || conditions.material;
+  const inputs: DuctInputs = {
+    ...conditions,
+    material,
+    // Unknown materials are left to the solver, which flags them
+    roughness: !cell("material")
+      ? conditions.roughness
+      : isKnownMaterial(material, settings.library)
+        ? roughnessFor(material, settings.library)
+        : undefined,
+    temperature: T == null ? conditions.temperature : toSI("temperature", T, units.temperature),
+    rh: RH ?? conditions.rh,
+    mode: mode ?? "pressureDrop",
+    shape: shape ?? "rectangular",
+    width_mm: shape === "rectangular" ? a : 0,
+    height_mm: shape === "rectangular" ? b : 0,
+    diameter_mm: shape === "round" ? a : 0,
+    major_mm: shape === "flatOval" ? a : 0,
+    minor_mm: shape === "flatOval" ? b : 0,
+    aspectRatio: 0,
+    flow,
+    flowUnit: flowUnit ?? settings.units.flow,
+    velocity: 0,
+    targetDp: targetDp == null ? 0 : toSI("dp", targetDp, units.dp),
+    magicLocks: NO_MAGIC_LOCKS,
+  };
+  return { inputs, errors };
+}
+
+/** Read and solve every row below the header. */
+export function runBatch(rows: string[][], map: ColumnMap, settings: BatchSettings): BatchRow[] {
+  return rows.slice(1).map((cells, i) => {
+    const id = map.id >= 0 && cells[map.id]?.trim() ? cells[map.id].trim() : `Row ${i + 1}`;
+    const { inputs, errors } = readRow(cells, map, settings);
+    const base = { line: i + 2, id, cells };
+    if (errors.length) return { ...base, inputs: null, result: null, calc: null, warnings: [], errors };
+
+    const { result, warnings } = solveDuct(inputs);
+    if (!result) {
+      const reasons = warnings.length ? warnings : ["Not enough inputs to solve this row."];
+      return { ...base, inputs, result, calc: null, warnings: [], errors: reasons };
+    }
+    const flow_m3s = resultFlow_m3s(result);
+    const calc = flow_m3s > 0 ? calcSectionNums(result, flow_m3s, inputs) : null;
+    return { ...base, inputs, result, calc, warnings, errors: [] };
+  });
+}
@@ -0,0 +1,62 @@
+import type { DuctSection } from "./geometry";
+
+// ===================== standard size catalogues =====================
+// Sizes in mm. A catalogue may list rectangular sides, round diameters or both;
+// flat-oval axes snap to the rectangular list.
+export interface SizeCatalogue {
+  name: string;
+  rect?: number[];
+  round?: number[];
+}
+
+const range = (from: number, to: number, step: number) =>
+  Array.from({ length: Math.floor((to - from) / step) + 1 }, (_, i) => from + i * step);
+const inches = (sizes: number[]) => sizes.map((i) => i * 25.4);
+
+export type CatalogueId = "rect50" | "en1506" | "smacna";
+
+export const SIZE_CATALOGUES: Record<CatalogueId, SizeCatalogue> = {
+  rect50: { name: "Rectangular, 50 mm steps", rect: range(100, 2500, 50) },
+  en1506: {
+    name: "EN 1506 round",
+    round: [63, 71, 80, 90, 100, 112, 125, 140, 160, 180, 200, 224, 250, 280, 315, 355, 400, 450, 500, 560, 630, 710, 800, 900, 1000, 1120, 1250],
+  },
+  smacna: {
+    name: "SMACNA inch sizes",
+    rect: inches(range(4, 96, 2)),
+    round: inches([...range(3, 10, 1), ...range(12, 60, 2)]),
+  },
+};
+
+/** Next size at or above the value, or the nearest one; null beyond the largest size. */
+export function snapSize(value_mm: number, sizes: number[], roundUp: boolean) {
+  const sorted = [...sizes].sort((a, b) => a - b);
+  const i = sorted.findIndex((s) => s >= value_mm - 1e-6);
+  if (!(value_mm > 0) || i < 0) return null;
+  if (roundUp || i === 0) return sorted[i];
+  const down = sorted[i - 1];
+  return value_mm - down < sorted[i] - value_mm ? down : sorted[i];
+}
+
+/** Snap every dimension of a section to the catalogue; null if the catalogue has no fitting size. */
+export function snapSection(section: DuctSection, catalogue: SizeCatalogue, roundUp: boolean): DuctSection | null {
+  if (section.shape === "round") {
+    const d = catalogue.round && snapSize(section.diameter_mm, catalogue.round, roundUp);
+    return d ? { shape: "round", diameter_mm: d } : null;
+  }
+  if (!catalogue.rect) return null;
+  if (section.shape === "flatOval") {
+    const major = snapSize(section.major_mm, catalogue.rect, roundUp);
+    const minor = snapSize(section.minor_mm, catalogue.rect, roundUp);
+    return major && minor && major >= minor ? { shape: "flatOval", major_mm: major, minor_mm: minor } : null;
+  }
+  const w = snapSize(section.width_mm, catalogue.rect, roundUp);
+  const h = snapSize(section.height_mm, catalogue.rect, roundUp);
+  return w && h ? { shape: "rectangular", width_mm: w, height_mm: h } : null;
+}
+
+/** User-defined list (mm), used for every shape. */
+export function customCatalogue(sizes_mm: number[]): SizeCatalogue {
+  const sizes = sizes_mm.filter((s) => s > 0);
+  return { name: "Custom list", rect: sizes, round: sizes };
+}
@@ -0,0 +1,90 @@
+import { calcRectNums, type DuctConditions } from "./engine";
+import { rectForRoundDiameter } from "./equivalent";
+
+// ======================= friction chart =======================
+// Pa/m against flow on log-log axes, the way the ASHRAE chart is drawn. Every
+// point is computed for a square duct of the same equivalent diameter, so the
+// chart follows the current material roughness and air properties.
+
+export interface ChartPoint {
+  Q: number; // m³/s
+  dp: number; // Pa/m
+}
+
+/** One line of the chart: constant equivalent diameter (mm) or velocity (m/s). */
+export interface ChartLine {
+  value: number;
+  points: ChartPoint[];
+}
+
+export interface ChartRange {
+  flow: [number, number]; // m³/s
+  dp: [number, number]; // Pa/m
+}
+
+export const DEFAULT_CHART_RANGE: ChartRange = { flow: [0.01, 100], dp: [0.1, 20] };
+
+const SAMPLES = 48;
+
+const logSpace = (lo: number, hi: number, n: number) =>
+  Array.from({ length: n }, (_, i) => lo * Math.pow(hi / lo, i / (n - 1)));
+
+/** Pa/m at a flow through a duct of the given equivalent diameter. */
+export function chartDp(d_mm: number, Q_m3s: number, conditions: DuctConditions) {
+  const sq = rectForRoundDiameter(d_mm, 1);
+  if (!sq) return Infinity;
+  return calcRectNums(sq.width_mm, sq.height_mm, Q_m3s, conditions).dp_per_m;
+}
+
+/** Decade-aligned range covering the default and, if given, the operating point. */
+export function chartRangeFor(point: ChartPoint | null): ChartRange {
+  const widen = ([lo, hi]: [number, number], v: number | undefined): [number, number] => {
+    if (v == null || !(v > 0) || !Number.isFinite(v)) return [lo, hi];
+    return [
+      Math.min(lo, Math.pow(10, Math.floor(Math.log10(v)))),
+      Math.max(hi, Math.pow(10, Math.ceil(Math.log10(v)))),
+    ];
+  };
+  return {
+    flow: widen(DEFAULT_CHART_RANGE.flow, point?.Q),
+    dp: widen(DEFAULT_CHART_RANGE.dp, point?.dp),
+  };
+}
+
+// Keep a line to the plotted area, with a little spill so it meets the edges
+function clip(points: ChartPoint[], range: ChartRange) {
+  const [lo, hi] = range.dp;
+  return points.filter((p) => Number.isFinite(p.dp) && p.dp >= lo / 1.5 && p.dp <= hi * 1.5);
+}
+
+/** Lines of constant equivalent diameter (mm) across the flow range. */
+export function diameterLines(diameters_mm: number[], conditions: DuctConditions, range: ChartRange): ChartLine[] {
+  const flows = logSpace(range.flow[0], range.flow[1], SAMPLES);
+  return diameters_mm.map((d) => ({
+    value: d,
+    points: clip(
+      flows.map((Q) => ({ Q, dp: chartDp(d, Q, conditions) })),
+      range
+    ),
+  }));
+}
+
+/**
+ * Lines of constant velocity (m/s) in the equivalent round duct, traced by
+ * sweeping the diameter and letting the flow follow.
+ */
+export function velocityLines(velocities: number[], conditions: DuctConditions, range: ChartRange): ChartLine[] {
+  const diameters = logSpace(10, 10000, SAMPLES * 2); // mm
+  return velocities.map((v) => ({
+    value: v,
+    points: clip(
+      diameters
+        .map((d) => {
+          const Q = (v * Math.PI * (d / 1000) ** 2) / 4;
+          return { Q, dp: chartDp(d, Q, conditions) };
+        })
+        .filter((p) => p.Q >= range.flow[0] / 1.5 && p.Q <= range.flow[1] * 1.5),
+      range
+    ),
+  }));
+}
@@ -0,0 +1,132 @@
+import { describe, expect, it } from "vitest";
+import {
+  NO_MAGIC_LOCKS,
+  calcRectNums,
+  solveAspectRect,
+  solveDiameter,
+  solveDuct,
+  solveMaxFlow,
+  solveMissingDimension,
+  solveOvalMajor,
+  type DuctConditions,
+  type DuctInputs,
+} from "./engine";
+
+// Standard air in a galvanised duct, Colebrook-White
+const AIR: DuctConditions = {
+  temperature: 20,
+  rh: 50,
+  pressure: 101325,
+  material: "Galvanised steel",
+  frictionModel: "colebrook",
+};
+
+const INPUTS: DuctInputs = {
+  ...AIR,
+  mode: "pressureDrop",
+  shape: "rectangular",
+  width_mm: 400,
+  height_mm: 250,
+  diameter_mm: 0,
+  major_mm: 0,
+  minor_mm: 0,
+  aspectRatio: 0,
+  flow: 500,
+  flowUnit: "L/s",
+  velocity: 0,
+  targetDp: 1,
+  magicLocks: NO_MAGIC_LOCKS,
+};
+
+describe("calcRectNums", () => {
+  it("gives the section numbers of a 400 × 250 duct at 0.5 m³/s", () => {
+    const r = calcRectNums(400, 250, 0.5, AIR);
+    expect(r.A).toBeCloseTo(0.1, 12);
+    expect(r.V).toBeCloseTo(5, 12);
+    expect(r.Dh).toBeCloseTo(0.307692, 6);
+    expect(r.rho).toBeCloseTo(1.1988, 4);
+    expect(r.Re).toBeCloseTo(101713, -1);
+    expect(r.f).toBeCloseTo(0.02023, 5);
+    expect(r.dp_per_m).toBeCloseTo(0.98529, 4);
+    expect(r.velocityPressure).toBeCloseTo(14.9856, 3);
+    expect(r.eqDiameter).toBeCloseTo(0.34333, 5);
+  });
+
+  it("scales roughly with the square of the flow", () => {
+    const ratio = calcRectNums(400, 250, 1, AIR).dp_per_m / calcRectNums(400, 250, 0.5, AIR).dp_per_m;
+    expect(ratio).toBeGreaterThan(3.6);
+    expect(ratio).toBeLessThan(4);
+  });
+});
+
+describe("solvers", () => {
+  const target = { Q_m3s: 0.5, targetDpPaPerM: 1 };
+
+  it("solves the free side of a rectangle", () => {
+    const sol = solveMissingDimension({ fixedValueDisplay: 400, ...target }, AIR);
+    expect(sol?.displayValueMm).toBeCloseTo(248.58, 1);
+    expect(calcRectNums(400, sol!.displayValueMm, 0.5, AIR).dp_per_m).toBeCloseTo(1, 3);
+  });
+
+  it("solves a round diameter", () => {
+    expect(solveDiameter(target, AIR)?.displayValueMm).toBeCloseTo(342.97, 1);
+  });
+
+  it("solves a rectangle of fixed aspect ratio", () => {
+    const sol = solveAspectRect({ aspect: 2, ...target }, AIR);
+    expect(sol!.width_mm / sol!.height_mm).toBeCloseTo(2, 9);
+    expect(sol!.height_mm).toBeCloseTo(224.69, 1);
+  });
+
+  it("solves a flat-oval major axis", () => {
+    expect(solveOvalMajor({ minor_mm: 200, ...target }, AIR)?.displayValueMm).toBeCloseTo(542.58, 1);
+  });
+
+  it("solves the flow a section carries", () => {
+    const section = { shape: "rectangular" as const, width_mm: 400, height_mm: 250 };
+    expect(solveMaxFlow({ section, targetDpPaPerM: 1 }, AIR)).toBeCloseTo(0.50385, 4);
+  });
+
+  it("returns null for missing inputs", () => {
+    expect(solveDiameter({ Q_m3s: 0, targetDpPaPerM: 1 }, AIR)).toBeNull();
+    expect(solveMissingDimension({ fixedValueDisplay: 0, ...target }, AIR)).toBeNull();
+  });
+});
+
+describe("solveDuct", () => {
+  it("agrees with calcRectNums in Pressure Drop mode", () => {
+    const { result, warnings } = solveDuct(INPUTS);
+    expect(warnings).toEqual([]);
+    expect(result?.mode).toBe("pressureDrop");
+    if (result?.mode !== "pressureDrop") return;
+    expect(result.flow_m3s).toBeCloseTo(0.5, 12);
+    expect(result.dp_per_m).toBeCloseTo(calcRectNums(400, 250, 0.5, AIR).dp_per_m, 12);
+  });
+
+  it("sizes the blank side in Fixed Dim mode", () => {
+    const { result } = solveDuct({ ...INPUTS, mode: "fixedDim", height_mm: 0 });
+    expect(result?.shape === "rectangular" && result.height_mm).toBeCloseTo(248.58, 1);
+  });
+
+  it("finds the flow at the target in Max Flow mode", () => {
+    const { result } = solveDuct({ ...INPUTS, mode: "maxFlow" });
+    expect(result?.mode === "maxFlow" && result.maxFlow_m3s).toBeCloseTo(0.50385, 4);
+  });
+
+  it("satisfies every lock in Magic mode", () => {
+    const { result } = solveDuct({
+      ...INPUTS,
+      mode: "magic",
+      magicLocks: { ...NO_MAGIC_LOCKS, flow: true, width: true, dp: true },
+    });
+    expect(result?.mode).toBe("magic");
+    if (result?.mode !== "magic") return;
+    expect(result.converged).toBe(true);
+    expect(result.shape === "rectangular" && result.height_mm).toBeCloseTo(248.58, 0);
+  });
+
+  it("flags an unknown material", () => {
+    const { warnings } = solveDuct({ ...INPUTS, material: "Unobtainium" });
+    expect(warnings[0]).toMatch(/Unknown material/);
+  });
+});
@@ -0,0 +1,743 @@
+import { dynamicViscosityAir, maxRHPercent, moistAirDensity, STANDARD_PRESSURE_PA } from "./air";
+import { equalFrictionDiameter_m } from "./equivalent";
+import { frictionFactor, type FrictionModel } from "./friction";
+import {
+  hydraulicDiameter_m,
+  sectionArea_m2,
+  type DuctSection,
+  type DuctShape,
+} from "./geometry";
+import { isKnownMaterial, roughnessFor } from "./materials";
+import { flowInputToM3s, mmToM, mToMm, safeNum, type FlowUnit } from "./units";
+
+// ============================ types ============================
+export type Mode = "pressureDrop" | "fixedDim" | "maxFlow" | "magic";
+
+export const MODE_LABELS: Record<Mode, string> = {
+  pressureDrop: "Pressure Drop",
+  fixedDim: "Fixed Dim",
+  maxFlow: "Max Flow Rate",
+  magic: "Magic Mode",
+};
+
+export interface MagicLocks {
+  flow: boolean;
+  width: boolean;
+  height: boolean;
+  diameter: boolean;
+  major: boolean;
+  minor: boolean;
+  aspect: boolean;
+  velocity: boolean;
+  dp: boolean;
+}
+
+export const NO_MAGIC_LOCKS: MagicLocks = {
+  flow: false,
+  width: false,
+  height: false,
+  diameter: false,
+  major: false,
+  minor: false,
+  aspect: false,
+  velocity: false,
+  dp: false,
+};
+
+/** Rectangular ducts flatter than this are flagged (SMACNA practice). */
+export const MAX_ASPECT_RATIO = 4;
+
+/** Air state, duct material and friction model shared by every calculation. */
+export interface DuctConditions {
+  temperature: number; // °C
+  rh: number; // %
+  pressure: number; // Pa, barometric
+  material: string;
+  roughness?: number; // m; overrides the material's listed roughness (user library)
+  frictionModel: FrictionModel;
+}
+
+/** Everything the solver needs for one calculation, as entered by the user. */
+export interface DuctInputs extends DuctConditions {
+  mode: Mode;
+  shape: DuctShape;
+  width_mm: number; // rectangular
+  height_mm: number; // rectangular
+  diameter_mm: number; // round
+  major_mm: number; // flat oval
+  minor_mm: number; // flat oval
+  aspectRatio: number; // rectangular W:H, 0 = not set
+  flow: number; // in flowUnit
+  flowUnit: FlowUnit;
+  velocity: number; // m/s
+  targetDp: number; // Pa/m
+  magicLocks: MagicLocks;
+}
+
+// Every result records the friction correlation and air state that produced it.
+type ResultBase = {
+  frictionModel: FrictionModel;
+  material: string;
+  roughness_m: number;
+  barometricPressure: number; // Pa
+  airDensity: number; // kg/m³
+  airViscosity: number; // Pa·s
+};
+
+export type PressureDropResult = DuctSection & ResultBase & {
+  mode: "pressureDrop";
+  flow_m3s: number;
+  hydraulicDiameter_m: number;
+  eqDiameter_m: number;
+  averageVelocity: number;
+  effectiveVelocity: number;
+  dp_per_m: number;
+  velocityPressure: number;
+  reynolds: number;
+  frictionFactor: number;
+};
+
+export type FixedDimResult = DuctSection & ResultBase & {
+  mode: "fixedDim";
+  flow_m3s: number;
+  dp_per_m: number;
+};
+
+export type MaxFlowResult = DuctSection & ResultBase & {
+  mode: "maxFlow";
+  maxFlow_m3s: number | null;
+  velocity: number;
+  dp_per_m?: number;
+  dp_target?: number;
+};
+
+export type MagicResult = DuctSection & ResultBase & {
+  mode: "magic";
+  flow_m3s: number;
+  velocity: number;
+  dp_per_m: number;
+  magicResiduals: MagicResidual[]; // one per locked field
+  rmsResidual: number; // relative
+  converged: boolean;
+  iterations: number;
+};
+
+export type DuctResult = PressureDropResult | FixedDimResult | MaxFlowResult | MagicResult;
+
+export interface SolveOutcome {
+  result: DuctResult | null;
+  warnings: string[];
+}
+
+export type SectionCalc = ReturnType<typeof calcSectionNums>;
+
+/** Flow carried by the section in any result (the solved maximum in Max Flow mode). */
+export function resultFlow_m3s(r: DuctResult) {
+  return r.mode === "maxFlow" ? (r.maxFlow_m3s ?? 0) : r.flow_m3s;
+}
+
+// ======================= core duct calc =======================
+export function calcSectionNums(section: DuctSection, Q_m3s: number, conditions: DuctConditions) {
+  const { temperature: T, rh: RH, pressure, material: mat, frictionModel } = conditions;
+  const rho = moistAirDensity(pressure, T, RH);
+  const mu = dynamicViscosityAir(T);
+  const A = sectionArea_m2(section);
+  const Dh = hydraulicDiameter_m(section); // m
+  const V = A > 0 ? Q_m3s / A : 0; // m/s
+  const Re = (rho * Math.abs(V) * Dh) / mu;
+  const eps = conditions.roughness ?? roughnessFor(mat);
+  const f = frictionFactor(Re, eps / Math.max(Dh, 1e-9), frictionModel);
+  const dp_per_m = Dh > 0 ? (f * (rho * V * V)) / (2 * Dh) : Infinity; // Pa/m
+  const velocityPressure = 0.5 * rho * V * V; // Pa
+  const eqDiameter = equalFrictionDiameter_m(section); // m
+  return { A, Dh, V, Re, f, dp_per_m, rho, mu, velocityPressure, eqDiameter };
+}
+
+export function calcRectNums(w_mm: number, h_mm: number, Q_m3s: number, conditions: DuctConditions) {
+  return calcSectionNums({ shape: "rectangular", width_mm: w_mm, height_mm: h_mm }, Q_m3s, conditions);
+}
+
+const calcWith = (c: DuctConditions, section: DuctSection, Q_m3s: number) =>
+  calcSectionNums(section, Q_m3s, c);
+
+const rect = (width_mm: number, height_mm: number): DuctSection => ({
+  shape: "rectangular",
+  width_mm,
+  height_mm,
+});
+const round = (diameter_mm: number): DuctSection => ({ shape: "round", diameter_mm });
+const flatOval = (major_mm: number, minor_mm: number): DuctSection => ({
+  shape: "flatOval",
+  major_mm,
+  minor_mm,
+});
+
+// ========================== solvers ==========================
+/** Bisect one free size (m) so the section built from it runs at the target Pa/m. */
+function bisectFreeSize(
+  build: (size_m: number) => DuctSection,
+  Q_m3s: number,
+  target: number,
+  conditions: DuctConditions
+) {
+  let lo = 1e-4;
+  let hi = 5.0;
+  let best: { mid: number; dp: number } | null = null;
+  for (let i = 0; i < 60; i++) {
+    const mid = 0.5 * (lo + hi);
+    const dp = calcWith(conditions, build(mid), Q_m3s).dp_per_m;
+    if (!Number.isFinite(dp)) break;
+    if (dp > target) lo = mid;
+    else hi = mid;
+    best = { mid, dp };
+    if (Math.abs(dp - target) / Math.max(target, 1e-6) < 1e-4) break;
+  }
+  if (!best) return null;
+  return { displayValueMm: mToMm(best.mid), dp: best.dp };
+}
+
+/** Bisect the free side of a rectangle so the section runs at the target Pa/m. */
+export function solveMissingDimension(
+  {
+    fixedIsWidth = true,
+    fixedValueDisplay,
+    Q_m3s,
+    targetDpPaPerM,
+  }: {
+    fixedIsWidth?: boolean;
+    fixedValueDisplay: number;
+    Q_m3s: number;
+    targetDpPaPerM: number;
+  },
+  conditions: DuctConditions
+) {
+  const fixed_m = mmToM(safeNum(fixedValueDisplay, 0));
+  const target = safeNum(targetDpPaPerM, 0);
+  if (fixed_m <= 0 || Q_m3s <= 0 || target <= 0) return null;
+  return bisectFreeSize(
+    (mid) => (fixedIsWidth ? rect(mToMm(fixed_m), mToMm(mid)) : rect(mToMm(mid), mToMm(fixed_m))),
+    Q_m3s,
+    target,
+    conditions
+  );
+}
+
+/** Bisect the round-duct diameter that runs at the target Pa/m. */
+export function solveDiameter(
+  { Q_m3s, targetDpPaPerM }: { Q_m3s: number; targetDpPaPerM: number },
+  conditions: DuctConditions
+) {
+  const target = safeNum(targetDpPaPerM, 0);
+  if (Q_m3s <= 0 || target <= 0) return null;
+  return bisectFreeSize((mid) => round(mToMm(mid)), Q_m3s, target, conditions);
+}
+
+/** Bisect the height of a rectangle of fixed aspect ratio (W:H) so it runs at the target Pa/m. */
+export function solveAspectRect(
+  { aspect, Q_m3s, targetDpPaPerM }: { aspect: number; Q_m3s: number; targetDpPaPerM: number },
+  conditions: DuctConditions
+) {
+  const ar = safeNum(aspect, 0);
+  const target = safeNum(targetDpPaPerM, 0);
+  if (ar <= 0 || Q_m3s <= 0 || target <= 0) return null;
+  const sol = bisectFreeSize((h) => rect(mToMm(ar * h), mToMm(h)), Q_m3s, target, conditions);
+  if (!sol) return null;
+  return { width_mm: ar * sol.displayValueMm, height_mm: sol.displayValueMm, dp: sol.dp };
+}
+
+/** Bisect the flat-oval major axis for a fixed minor axis so the section runs at the target Pa/m. */
+export function solveOvalMajor(
+  { minor_mm, Q_m3s, targetDpPaPerM }: { minor_mm: number; Q_m3s: number; targetDpPaPerM: number },
+  conditions: DuctConditions
+) {
+  const minor = safeNum(minor_mm, 0);
+  const target = safeNum(targetDpPaPerM, 0);
+  if (minor <= 0 || Q_m3s <= 0 || target <= 0) return null;
+  // Bisect the flat span so the major axis never drops below the minor axis.
+  const sol = bisectFreeSize((span) => flatOval(minor + mToMm(span), minor), Q_m3s, target, conditions);
+  if (!sol) return null;
+  return { displayValueMm: minor + sol.displayValueMm, dp: sol.dp };
+}
+
+/** Bisect the flow a fixed section carries at the target Pa/m. */
+export function solveMaxFlow(
+  { section, targetDpPaPerM }: { section: DuctSection; targetDpPaPerM: number },
+  conditions: DuctConditions
+) {
+  const target = safeNum(targetDpPaPerM, 0);
+  if (sectionArea_m2(section) <= 0 || target <= 0) return null;
+  let lo = 1e-6;
+  let hi = 10;
+  let bestQ = 0;
+  for (let i = 0; i < 80; i++) {
+    const mid = 0.5 * (lo + hi);
+    const dp = calcWith(conditions, section, mid).dp_per_m;
+    if (!Number.isFinite(dp)) break;
+    if (dp > target) hi = mid;
+    else {
+      lo = mid;
+      bestQ = mid;
+    }
+    if (Math.abs(dp - target) / Math.max(target, 1e-6) < 1e-4) break;
+  }
+  return bestQ;
+}
+
+type MagicVar = "flow" | "width" | "height" | "diameter" | "major" | "minor";
+type MagicConstraint = "aspect" | "velocity" | "dp";
+type MagicState = Record<MagicVar, number>;
+type MagicTargets = Record<keyof MagicLocks, number>;
+
+/** Free variables Magic mode may adjust for each shape. */
+export const MAGIC_VARS: Record<DuctShape, MagicVar[]> = {
+  rectangular: ["flow", "width", "height"],
+  round: ["flow", "diameter"],
+  flatOval: ["flow", "major", "minor"],
+};
+
+/** Lockable fields for each shape, in display order. */
+export const MAGIC_LOCK_KEYS: Record<DuctShape, (keyof MagicLocks)[]> = {
+  rectangular: ["flow", "width", "height", "aspect", "velocity", "dp"],
+  round: ["flow", "diameter", "velocity", "dp"],
+  flatOval: ["flow", "major", "minor", "velocity", "dp"],
+};
+
+const MAGIC_CONSTRAINTS: MagicConstraint[] = ["aspect", "velocity", "dp"];
+
+// Lower-case field names for solver messages
+const MAGIC_FIELD_NAMES: Record<keyof MagicLocks, string> = {
+  flow: "flow",
+  width: "width",
+  height: "height",
+  diameter: "diameter",
+  major: "major axis",
+  minor: "minor axis",
+  aspect: "aspect ratio",
+  velocity: "velocity",
+  dp: "pressure drop",
+};
+
+// Variables a derived lock responds to
+const constraintVars = (c: MagicConstraint, shape: DuctShape): MagicVar[] =>
+  c === "aspect" ? ["width", "height"] : MAGIC_VARS[shape];
+
+const nameList = (keys: (keyof MagicLocks)[]) => keys.map((k) => MAGIC_FIELD_NAMES[k]).join(", ");
+
+export interface MagicDof {
+  free: MagicVar[]; // unlocked flow / sizes
+  constraints: MagicConstraint[]; // locked derived fields
+  status: "ok" | "under" | "over";
+  message: string | null;
+}
+
+/**
+ * Degrees-of-freedom check for a lock combination: every locked derived field
+ * (velocity, pressure drop, aspect ratio) must pin down a distinct free
+ * variable it depends on, and every free variable must be pinned.
+ */
+export function magicDof(shape: DuctShape, locks: MagicLocks): MagicDof {
+  const free = MAGIC_VARS[shape].filter((v) => !locks[v]);
+  const constraints = MAGIC_CONSTRAINTS.filter((c) => MAGIC_LOCK_KEYS[shape].includes(c) && locks[c]);
+
+  // Maximum matching of constraints to the free variables they depend on
+  const owner = new Map<MagicVar, MagicConstraint>();
+  const assign = (c: MagicConstraint, seen: Set<MagicVar>): boolean => {
+    for (const v of constraintVars(c, shape)) {
+      if (!free.includes(v) || seen.has(v)) continue;
+      seen.add(v);
+      const prev = owner.get(v);
+      if (!prev || assign(prev, seen)) {
+        owner.set(v, c);
+        return true;
+      }
+    }
+    return false;
+  };
+  const unmatched = constraints.filter((c) => !assign(c, new Set()));
+
+  if (unmatched.length) {
+    const c = unmatched[0];
+    const deps = constraintVars(c, shape);
+    const message = deps.every((v) => locks[v])
+      ? `Over-constrained: ${MAGIC_FIELD_NAMES[c]} is already fixed by the locked ${nameList(deps)} — unlock one of them.`
+      : `Over-constrained: ${constraints.length} locked condition(s) (${nameList(constraints)}) for ${free.length} free value(s)${free.length ? ` (${nameList(free)})` : ""} — unlock ${unmatched.length}.`;
+    return { free, constraints, status: "over", message };
+  }
+  if (free.length > constraints.length) {
+    const missing = free.length - constraints.length;
+    const message = `Under-constrained: ${free.length} free value(s) (${nameList(free)}) but ${constraints.length} locked condition(s)${constraints.length ? ` (${nameList(constraints)})` : ""} — lock ${missing} more field(s).`;
+    return { free, constraints, status: "under", message };
+  }
+  return { free, constraints, status: "ok", message: null };
+}
+
+export interface MagicResidual {
+  field: keyof MagicLocks;
+  target: number; // SI: m³/s, mm, m/s, Pa/m; aspect W:H
+  achieved: number;
+  relative: number; // (achieved − target) / target
+}
+
+function magicSection(shape: DuctShape, s: MagicState) {
+  if (shape === "round") return round(s.diameter);
+  if (shape === "flatOval") return flatOval(Math.max(s.major, s.minor), s.minor);
+  return rect(s.width, s.height);
+}
+
+// Gaussian elimination with partial pivoting; null if singular
+function solveLinear(A: number[][], b: number[]) {
+  const n = b.length;
+  const M = A.map((row, i) => [...row, b[i]]);
+  for (let col = 0; col < n; col++) {
+    let piv = col;
+    for (let r = col + 1; r < n; r++) if (Math.abs(M[r][col]) > Math.abs(M[piv][col])) piv = r;
+    if (Math.abs(M[piv][col]) < 1e-300) return null;
+    [M[col], M[piv]] = [M[piv], M[col]];
+    for (let r = col + 1; r < n; r++) {
+      const f = M[r][col] / M[col][col];
+      for (let k = col; k <= n; k++) M[r][k] -= f * M[col][k];
+    }
+  }
+  const x = new Array<number>(n).fill(0);
+  for (let r = n - 1; r >= 0; r--) {
+    let sum = M[r][n];
+    for (let k = r + 1; k < n; k++) sum -= M[r][k] * x[k];
+    x[r] = sum / M[r][r];
+  }
+  return x;
+}
+
+/**
+ * Levenberg–Marquardt over the logarithms of the unlocked flow and section
+ * sizes (keeping them positive), minimising the relative residuals of every
+ * locked field. Locked flow and sizes sit exactly on their targets.
+ */
+export function solveMagic(
+  shape: DuctShape,
+  locked: MagicLocks,
+  targets: MagicTargets,
+  conditions: DuctConditions
+) {
+  const free = MAGIC_VARS[shape].filter((v) => !locked[v]);
+  const start: MagicState = {
+    flow: targets.flow || 0.1,
+    width: targets.width || 200,
+    height: targets.height || 200,
+    diameter: targets.diameter || 200,
+    major: targets.major || 300,
+    minor: targets.minor || 150,
+  };
+  const toState = (x: number[]) => {
+    const s = { ...start };
+    free.forEach((v, i) => (s[v] = Math.exp(x[i])));
+    return s;
+  };
+
+  function evaluate(s: MagicState) {
+    const calc = calcWith(conditions, magicSection(shape, s), s.flow);
+    const achieved: Record<keyof MagicLocks, number> = {
+      ...s,
+      aspect: s.width / s.height,
+      velocity: calc.V,
+      dp: calc.dp_per_m,
+    };
+    const residuals: MagicResidual[] = MAGIC_LOCK_KEYS[shape]
+      .filter((k) => locked[k])
+      .map((field) => ({
+        field,
+        target: targets[field],
+        achieved: achieved[field],
+        relative: (achieved[field] - targets[field]) / Math.max(Math.abs(targets[field]), 1e-9),
+      }));
+    const cost = residuals.reduce((a, r) => a + r.relative * r.relative, 0);
+    return { calc, residuals, cost };
+  }
+
+  let x = free.map((v) => Math.log(start[v]));
+  let cur = evaluate(toState(x));
+  let lambda = 1e-3;
+  let iterations = 0;
+  const h = 1e-6;
+  for (; iterations < 100 && free.length && cur.cost > 1e-20; iterations++) {
+    // Forward-difference Jacobian of the residual vector
+    const r0 = cur.residuals.map((r) => r.relative);
+    const J = r0.map(() => new Array<number>(free.length).fill(0));
+    free.forEach((_, j) => {
+      const xj = [...x];
+      xj[j] += h;
+      evaluate(toState(xj)).residuals.forEach((r, i) => (J[i][j] = (r.relative - r0[i]) / h));
+    });
+    const JtJ = free.map((_, a) => free.map((_, b) => J.reduce((s, row) => s + row[a] * row[b], 0)));
+    const Jtr = free.map((_, a) => J.reduce((s, row, i) => s + row[a] * r0[i], 0));
+
+    let accepted = false;
+    while (lambda < 1e12) {
+      const M = JtJ.map((row, a) => row.map((v, b) => (a === b ? v * (1 + lambda) + lambda * 1e-9 : v)));
+      const delta = solveLinear(M, Jtr.map((g) => -g));
+      if (delta && delta.every(Number.isFinite)) {
+        // Cap each step at a factor of e² per variable
+        const xn = x.map((xi, i) => xi + Math.max(-2, Math.min(2, delta[i])));
+        const next = evaluate(toState(xn));
+        if (Number.isFinite(next.cost) && next.cost < cur.cost) {
+          const gain = cur.cost - next.cost;
+          x = xn;
+          cur = next;
+          lambda = Math.max(lambda / 10, 1e-12);
+          accepted = gain > 1e-16 * Math.max(cur.cost, 1e-30);
+          break;
+        }
+      }
+      lambda *= 10;
+    }
+    if (!accepted) break;
+  }
+
+  const state = toState(x);
+  const rms = cur.residuals.length ? Math.sqrt(cur.cost / cur.residuals.length) : 0;
+  return {
+    state,
+    rms,
+    calc: cur.calc,
+    residuals: cur.residuals,
+    iterations,
+    converged: rms < 1e-4,
+    section: magicSection(shape, state),
+  };
+}
+
+/** Warning for a rectangular section flatter than MAX_ASPECT_RATIO, if it is. */
+export function aspectWarnings(section: DuctSection) {
+  if (section.shape !== "rectangular" || !(section.width_mm > 0 && section.height_mm > 0)) return [];
+  const ar = Math.max(section.width_mm / section.height_mm, section.height_mm / section.width_mm);
+  return ar > MAX_ASPECT_RATIO
+    ? [`Aspect ratio ${ar.toFixed(1)}:1 exceeds ${MAX_ASPECT_RATIO}:1 — expect higher losses and noise.`]
+    : [];
+}
+
+// ======================== entry point ========================
+/** Run one calculation in the requested mode. Pure: no UI state involved. */
+export function solveDuct(inputs: DuctInputs): SolveOutcome {
+  const outcome = solveInMode(inputs);
+  if (inputs.roughness == null && !isKnownMaterial(inputs.material)) {
+    outcome.warnings.unshift(`Unknown material "${inputs.material}" — using the galvanised steel roughness.`);
+  }
+  const maxRH = maxRHPercent(safeNum(inputs.pressure, STANDARD_PRESSURE_PA), safeNum(inputs.temperature, 20));
+  if (safeNum(inputs.rh, 50) > maxRH) {
+    outcome.warnings.unshift(`RH above ${maxRH.toFixed(1)} % is not possible at this temperature and pressure — the air is taken as pure steam.`);
+  }
+  return outcome;
+}
+
+function solveInMode(inputs: DuctInputs): SolveOutcome {
+  const { mode, shape, width_mm: w_mm, height_mm: h_mm, diameter_mm: d_mm, magicLocks } = inputs;
+  const { major_mm, minor_mm } = inputs;
+  const conditions: DuctConditions = {
+    temperature: safeNum(inputs.temperature, 20),
+    rh: safeNum(inputs.rh, 50),
+    pressure: safeNum(inputs.pressure, STANDARD_PRESSURE_PA),
+    material: inputs.material,
+    roughness: inputs.roughness,
+    frictionModel: inputs.frictionModel,
+  };
+  const resultBase: ResultBase = {
+    frictionModel: conditions.frictionModel,
+    material: conditions.material,
+    roughness_m: conditions.roughness ?? roughnessFor(conditions.material),
+    barometricPressure: conditions.pressure,
+    airDensity: moistAirDensity(conditions.pressure, conditions.temperature, conditions.rh),
+    airViscosity: dynamicViscosityAir(conditions.temperature),
+  };
+  const Q = flowInputToM3s(inputs.flow, inputs.flowUnit);
+  const section =
+    shape === "round"
+      ? round(d_mm)
+      : shape === "flatOval"
+        ? flatOval(major_mm, minor_mm)
+        : rect(w_mm, h_mm);
+
+  if (mode === "pressureDrop") {
+    const calc = calcWith(conditions, section, Q);
+    const warnings: string[] = [];
+    if (calc.V > 15) warnings.push("Velocity high (>15 m/s) — check suitability");
+    warnings.push(...aspectWarnings(section));
+    return {
+      result: {
+        ...section,
+        ...resultBase,
+        mode,
+        flow_m3s: Q,
+        hydraulicDiameter_m: calc.Dh,
+        eqDiameter_m: calc.eqDiameter,
+        averageVelocity: calc.V,
+        effectiveVelocity: calc.V,
+        dp_per_m: calc.dp_per_m,
+        velocityPressure: calc.velocityPressure,
+        reynolds: calc.Re,
+        frictionFactor: calc.f,
+      },
+      warnings,
+    };
+  }
+
+  if (mode === "fixedDim") {
+    const needDp = safeNum(inputs.targetDp, 0);
+    const needV = safeNum(inputs.velocity, 0);
+    const ar = safeNum(inputs.aspectRatio, 0);
+    const Qv = Q > 0 ? Q : needV > 0 ? needV * sectionArea_m2(section) : 0;
+    const warnings: string[] = [];
+    let solved = section;
+
+    // Size the blank dimension from whichever of velocity / Pa/m needs the larger duct.
+    const pickLargest = (fromV: number | null, fromDp: { displayValueMm: number } | null) => {
+      const candidates: number[] = [];
+      if (needV > 0 && Qv > 0 && fromV != null) candidates.push(fromV);
+      if (fromDp) candidates.push(fromDp.displayValueMm);
+      return candidates.length ? Math.max(...candidates.map((x) => safeNum(x, 0))) : null;
+    };
+    const dpTarget = needDp > 0 && Qv > 0 ? needDp : 0;
+    const solveSide = (fixedIsWidth: boolean, fixed_mm: number) =>
+      pickLargest(
+        mToMm(Qv / needV / mmToM(fixed_mm)),
+        dpTarget
+          ? solveMissingDimension(
+              { fixedIsWidth, fixedValueDisplay: fixed_mm, Q_m3s: Qv, targetDpPaPerM: dpTarget },
+              conditions
+            )
+          : null
+      );
+
+    if (shape === "round") {
+      if (!d_mm || d_mm <= 0) {
+        const pick = pickLargest(
+          mToMm(Math.sqrt((4 * Qv) / (Math.PI * needV))),
+          dpTarget ? solveDiameter({ Q_m3s: Qv, targetDpPaPerM: dpTarget }, conditions) : null
+        );
+        if (pick) solved = round(pick);
+      }
+    } else if (shape === "flatOval") {
+      if (minor_mm > 0 && (!major_mm || major_mm <= 0)) {
+        // Major axis whose area gives the target velocity, never below the minor axis
+        const b = mmToM(minor_mm);
+        const fromV = mToMm(b + Math.max(0, Qv / needV - (Math.PI * b * b) / 4) / b);
+        const pick = pickLargest(
+          fromV,
+          dpTarget
+            ? solveOvalMajor({ minor_mm, Q_m3s: Qv, targetDpPaPerM: dpTarget }, conditions)
+            : null
+        );
+        if (pick) solved = flatOval(pick, minor_mm);
+      }
+    } else if ((!w_mm || w_mm <= 0) && (!h_mm || h_mm <= 0)) {
+      // Both sides blank: size the height, width follows from the aspect ratio
+      if (ar > 0) {
+        const fromDp = dpTarget
+          ? solveAspectRect({ aspect: ar, Q_m3s: Qv, targetDpPaPerM: dpTarget }, conditions)
+          : null;
+        const pick = pickLargest(
+          mToMm(Math.sqrt(Qv / needV / ar)),
+          fromDp && { displayValueMm: fromDp.height_mm }
+        );
+        if (pick) solved = rect(ar * pick, pick);
+      } else {
+        warnings.push("Enter a width, a height or an aspect ratio to size the duct.");
+      }
+    } else if (w_mm > 0 && (!h_mm || h_mm <= 0)) {
+      const pick = solveSide(true, w_mm);
+      if (pick) solved = rect(w_mm, pick);
+    } else if (h_mm > 0 && (!w_mm || w_mm <= 0)) {
+      const pick = solveSide(false, h_mm);
+      if (pick) solved = rect(pick, h_mm);
+    }
+
+    const calc = calcWith(conditions, solved, Qv);
+    warnings.push(...aspectWarnings(solved));
+    return {
+      result: { ...solved, ...resultBase, mode, flow_m3s: Qv, dp_per_m: calc.dp_per_m },
+      warnings,
+    };
+  }
+
+  if (mode === "maxFlow") {
+    const needDp = safeNum(inputs.targetDp, 0);
+    const needV = safeNum(inputs.velocity, 0);
+    if (needV > 0 && needDp > 0) {
+      return {
+        result: null,
+        warnings: ["Enter either Velocity OR Pressure Drop in Max Flow mode, not both."],
+      };
+    }
+    if (needV > 0) {
+      const Qcalc = needV * sectionArea_m2(section);
+      const calc = calcWith(conditions, section, Qcalc);
+      return {
+        result: {
+          ...section,
+          ...resultBase,
+          mode,
+          maxFlow_m3s: Qcalc,
+          velocity: needV,
+          dp_per_m: calc.dp_per_m,
+        },
+        warnings: [],
+      };
+    }
+    if (needDp > 0) {
+      const maxQ = solveMaxFlow({ section, targetDpPaPerM: needDp }, conditions);
+      const calc = calcWith(conditions, section, maxQ || 0);
+      return {
+        result: {
+          ...section,
+          ...resultBase,
+          mode,
+          maxFlow_m3s: maxQ,
+          velocity: calc.V,
+          dp_target: needDp,
+        },
+        warnings: [],
+      };
+    }
+    return { result: null, warnings: [] };
+  }
+
+  // magic
+  const dof = magicDof(shape, magicLocks);
+  if (dof.message) return { result: null, warnings: [dof.message] };
+  const targets: MagicTargets = {
+    flow: Q,
+    width: safeNum(w_mm, 0),
+    height: safeNum(h_mm, 0),
+    diameter: safeNum(d_mm, 0),
+    major: safeNum(major_mm, 0),
+    minor: safeNum(minor_mm, 0),
+    aspect: safeNum(inputs.aspectRatio, 0),
+    velocity: safeNum(inputs.velocity, 0),
+    dp: safeNum(inputs.targetDp, 0),
+  };
+  const blank = MAGIC_LOCK_KEYS[shape].filter((k) => magicLocks[k] && !(targets[k] > 0));
+  if (blank.length) {
+    return { result: null, warnings: [`Enter a positive ${nameList(blank)} before locking it.`] };
+  }
+
+  const best = solveMagic(shape, magicLocks, targets, conditions);
+  const warnings = aspectWarnings(best.section);
+  if (!best.converged) {
+    warnings.unshift(
+      `Magic solver could not satisfy every lock (RMS residual ${(best.rms * 100).toFixed(2)} %) — check the residuals.`
+    );
+  }
+  return {
+    result: {
+      ...best.section,
+      ...resultBase,
+      mode: "magic",
+      flow_m3s: best.state.flow,
+      velocity: best.calc.V,
+      dp_per_m: best.calc.dp_per_m,
+      magicResiduals: best.residuals,
+      rmsResidual: best.rms,
+      converged: best.converged,
+      iterations: best.iterations,
+    },
+    warnings,
+  };
+}
@@ -0,0 +1,38 @@
+import { sectionArea_m2, sectionPerimeter_m, type DuctSection } from "./geometry";
+
+// ================= equivalent round diameters =================
+// Equal friction and equal flow: Huebscher for rectangles, Heyt & Diaz for flat oval.
+
+/** Huebscher: De = 1.30·(ab)^0.625 / (a+b)^0.25, in the units of a and b. */
+export function huebscherDiameter(a: number, b: number) {
+  if (a <= 0 || b <= 0) return 0;
+  return (1.3 * Math.pow(a * b, 0.625)) / Math.pow(a + b, 0.25);
+}
+
+/** Heyt & Diaz: De = 1.55·A^0.625 / P^0.25, in consistent units. */
+export function flatOvalEquivalentDiameter(area: number, perimeter: number) {
+  if (area <= 0 || perimeter <= 0) return 0;
+  return (1.55 * Math.pow(area, 0.625)) / Math.pow(perimeter, 0.25);
+}
+
+/** Round diameter (m) with the same friction loss as the section at the same flow. */
+export function equalFrictionDiameter_m(s: DuctSection) {
+  if (s.shape === "round") return Math.max(0, s.diameter_mm / 1000);
+  if (s.shape === "flatOval") {
+    return flatOvalEquivalentDiameter(sectionArea_m2(s), sectionPerimeter_m(s));
+  }
+  return huebscherDiameter(s.width_mm / 1000, s.height_mm / 1000);
+}
+
+/** Common rectangular aspect ratios (width : height) offered for round → rect. */
+export const EQUIVALENT_ASPECT_RATIOS = [1, 1.5, 2, 2.5, 3, 4];
+
+/**
+ * Rectangle of the given aspect ratio whose Huebscher diameter equals d_mm.
+ * Closed form of De = 1.30·(r·h²)^0.625 / ((r+1)·h)^0.25 solved for h.
+ */
+export function rectForRoundDiameter(d_mm: number, aspect: number) {
+  if (d_mm <= 0 || aspect <= 0) return null;
+  const height_mm = (d_mm * Math.pow(aspect + 1, 0.25)) / (1.3 * Math.pow(aspect, 0.625));
+  return { width_mm: aspect * height_mm, height_mm };
+}
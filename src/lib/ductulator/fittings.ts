@@ -0,0 +1,114 @@
+// ===================== fittings & minor losses =====================
+// Loss coefficients K apply to the section's velocity pressure: Δp = K · ½ρV².
+// Values are typical design figures (ASHRAE / SMACNA fitting tables) for
+// preliminary sizing; override K per item where the manufacturer's data differ.
+
+export type FittingCategory = "elbow" | "branch" | "transition" | "damper" | "entryExit" | "custom";
+
+export const FITTING_CATEGORIES: Record<FittingCategory, string> = {
+  elbow: "Elbows",
+  branch: "Tees / branches",
+  transition: "Reducers / expansions",
+  damper: "Dampers",
+  entryExit: "Entries / exits",
+  custom: "Custom",
+};
+
+export interface FittingType {
+  id: string;
+  category: FittingCategory;
+  name: string;
+  k: number;
+}
+
+export const FITTINGS: FittingType[] = [
+  // Round smooth elbows, 90°, by centreline radius / diameter
+  { id: "elbow-round-r0.5", category: "elbow", name: "Round smooth elbow 90°, r/D 0.5", k: 0.71 },
+  { id: "elbow-round-r0.75", category: "elbow", name: "Round smooth elbow 90°, r/D 0.75", k: 0.33 },
+  { id: "elbow-round-r1.0", category: "elbow", name: "Round smooth elbow 90°, r/D 1.0", k: 0.22 },
+  { id: "elbow-round-r1.5", category: "elbow", name: "Round smooth elbow 90°, r/D 1.5", k: 0.15 },
+  { id: "elbow-round-r2.0", category: "elbow", name: "Round smooth elbow 90°, r/D 2.0", k: 0.13 },
+  { id: "elbow-round-5gore", category: "elbow", name: "Round 5-gore elbow 90°, r/D 1.5", k: 0.24 },
+  { id: "elbow-round-3gore", category: "elbow", name: "Round 3-gore elbow 90°, r/D 1.5", k: 0.34 },
+  // Rectangular radius elbows, 90°, by inner radius / width and splitter vanes
+  { id: "elbow-rect-r0.5", category: "elbow", name: "Rect radius elbow 90°, r/W 0.5, no vanes", k: 0.45 },
+  { id: "elbow-rect-r0.75", category: "elbow", name: "Rect radius elbow 90°, r/W 0.75, no vanes", k: 0.28 },
+  { id: "elbow-rect-r1.0", category: "elbow", name: "Rect radius elbow 90°, r/W 1.0, no vanes", k: 0.21 },
+  { id: "elbow-rect-r1.5", category: "elbow", name: "Rect radius elbow 90°, r/W 1.5, no vanes", k: 0.17 },
+  { id: "elbow-rect-r0.5-v1", category: "elbow", name: "Rect radius elbow 90°, r/W 0.5, 1 splitter vane", k: 0.2 },
+  { id: "elbow-rect-r0.5-v2", category: "elbow", name: "Rect radius elbow 90°, r/W 0.5, 2 splitter vanes", k: 0.13 },
+  { id: "elbow-rect-r0.5-v3", category: "elbow", name: "Rect radius elbow 90°, r/W 0.5, 3 splitter vanes", k: 0.09 },
+  { id: "elbow-rect-mitre", category: "elbow", name: "Rect mitred elbow 90°, no vanes", k: 1.2 },
+  { id: "elbow-rect-mitre-sv", category: "elbow", name: "Rect mitred elbow 90°, single-blade turning vanes", k: 0.12 },
+  { id: "elbow-rect-mitre-dv", category: "elbow", name: "Rect mitred elbow 90°, double-blade turning vanes", k: 0.26 },
+  { id: "elbow-45", category: "elbow", name: "Smooth elbow 45°, r/D 1.5", k: 0.09 },
+  // Tees and branches (K on the velocity pressure of the leg considered)
+  { id: "branch-90", category: "branch", name: "Tee branch 90°, square take-off", k: 1.0 },
+  { id: "branch-shoe", category: "branch", name: "Tee branch 90°, 45° entry (shoe)", k: 0.6 },
+  { id: "branch-conical", category: "branch", name: "Conical tee branch 90°", k: 0.65 },
+  { id: "branch-wye", category: "branch", name: "Wye branch 45°", k: 0.4 },
+  { id: "branch-main", category: "branch", name: "Tee straight-through (main)", k: 0.15 },
+  { id: "branch-bullhead", category: "branch", name: "Bullhead tee (split)", k: 0.9 },
+  // Transitions
+  { id: "reducer-30", category: "transition", name: "Reducer, 30° included angle", k: 0.05 },
+  { id: "reducer-abrupt", category: "transition", name: "Reducer, abrupt (area ratio 0.5)", k: 0.35 },
+  { id: "expansion-15", category: "transition", name: "Expansion, 15° included angle", k: 0.15 },
+  { id: "expansion-abrupt", category: "transition", name: "Expansion, abrupt (area ratio 0.5)", k: 0.25 },
+  // Dampers (fully open)
+  { id: "damper-butterfly", category: "damper", name: "Butterfly damper, open", k: 0.2 },
+  { id: "damper-opposed", category: "damper", name: "Opposed-blade damper, open", k: 0.52 },
+  { id: "damper-parallel", category: "damper", name: "Parallel-blade damper, open", k: 0.32 },
+  { id: "damper-fire", category: "damper", name: "Curtain fire damper, open", k: 0.12 },
+  // Entries and exits
+  { id: "entry-bellmouth", category: "entryExit", name: "Bellmouth entry", k: 0.03 },
+  { id: "entry-flush", category: "entryExit", name: "Plain entry, flush in wall", k: 0.5 },
+  { id: "entry-projecting", category: "entryExit", name: "Plain entry, projecting", k: 0.9 },
+  { id: "exit-plenum", category: "entryExit", name: "Exit to plenum / atmosphere", k: 1.0 },
+  { id: "custom", category: "custom", name: "Custom fitting", k: 0 },
+];
+
+export const fittingById = (id: string) => FITTINGS.find((f) => f.id === id);
+
+/** One line of a run: a catalogue fitting, how many, and an optional K override. */
+export interface RunFitting {
+  fittingId: string;
+  quantity: number;
+  k?: number;
+}
+
+export interface RunItem {
+  label: string;
+  quantity: number;
+  k: number | null; // null for the straight duct
+  loss: number; // Pa
+}
+
+export interface RunBreakdown {
+  items: RunItem[];
+  straight: number; // Pa
+  fittings: number; // Pa
+  total: number; // Pa
+}
+
+/** Total pressure loss of a straight length plus fittings on one section. */
+export function evaluateRun(
+  length_m: number,
+  calc: { dp_per_m: number; velocityPressure: number },
+  fittings: RunFitting[]
+): RunBreakdown {
+  const straight = Math.max(0, length_m) * calc.dp_per_m;
+  const items: RunItem[] = [
+    { label: "Straight duct", quantity: Math.max(0, length_m), k: null, loss: straight },
+  ];
+  let fittingsLoss = 0;
+  for (const rf of fittings) {
+    const type = fittingById(rf.fittingId);
+    if (!type) continue;
+    const k = rf.k ?? type.k;
+    const quantity = Math.max(0, rf.quantity);
+    const loss = quantity * k * calc.velocityPressure;
+    fittingsLoss += loss;
+    items.push({ label: type.name, quantity, k, loss });
+  }
+  return { items, straight, fittings: fittingsLoss, total: straight + fittingsLoss };
+}
@@ -0,0 +1,33 @@
+import { describe, expect, it } from "vitest";
+import { FRICTION_MODELS, frictionFactor, type FrictionModel } from "./friction";
+
+const MODELS = Object.keys(FRICTION_MODELS) as FrictionModel[];
+
+describe("frictionFactor", () => {
+  it("is 64/Re in laminar flow", () => {
+    for (const model of MODELS) expect(frictionFactor(1000, 1e-4, model)).toBeCloseTo(0.064, 12);
+  });
+
+  it("matches the Moody chart in turbulent flow", () => {
+    // Re 1e5, ε/D 1e-4: Colebrook-White gives 0.01851
+    expect(frictionFactor(1e5, 1e-4, "colebrook")).toBeCloseTo(0.018514, 5);
+    for (const model of MODELS) {
+      expect(Math.abs(frictionFactor(1e5, 1e-4, model) / 0.018514 - 1)).toBeLessThan(0.02);
+    }
+  });
+
+  it("is continuous through the transitional band", () => {
+    for (const model of MODELS) {
+      for (const Re of [2300, 4000]) {
+        const below = frictionFactor(Re - 1e-6, 1e-4, model);
+        const above = frictionFactor(Re + 1e-6, 1e-4, model);
+        expect(Math.abs(above - below) / below).toBeLessThan(1e-6);
+      }
+    }
+  });
+
+  it("rejects a zero or invalid Reynolds number", () => {
+    expect(frictionFactor(0, 1e-4)).toBeNaN();
+    expect(frictionFactor(NaN, 1e-4)).toBeNaN();
+  });
+});
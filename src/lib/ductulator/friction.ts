@@ -0,0 +1,74 @@
+// ===================== friction factor =====================
+export type FrictionModel = "colebrook" | "swameeJain" | "haaland" | "altshulTsal";
+
+export const FRICTION_MODELS: Record<FrictionModel, string> = {
+  colebrook: "Colebrook-White",
+  swameeJain: "Swamee-Jain",
+  haaland: "Haaland",
+  altshulTsal: "Altshul-Tsal",
+};
+
+export const DEFAULT_FRICTION_MODEL: FrictionModel = "haaland";
+
+// Laminar below, fully turbulent correlation above; blended in between.
+const RE_LAMINAR = 2300;
+const RE_TURBULENT = 4000;
+
+function haaland(Re: number, eps_over_D: number) {
+  const A = Math.pow(eps_over_D / 3.7, 1.11) + 6.9 / Re;
+  return 1.0 / Math.pow(-1.8 * Math.log10(A), 2);
+}
+
+function swameeJain(Re: number, eps_over_D: number) {
+  const A = eps_over_D / 3.7 + 5.74 / Math.pow(Re, 0.9);
+  return 0.25 / Math.pow(Math.log10(A), 2);
+}
+
+function altshulTsal(Re: number, eps_over_D: number) {
+  const f = 0.11 * Math.pow(eps_over_D + 68 / Re, 0.25);
+  return f >= 0.018 ? f : 0.85 * f + 0.0028;
+}
+
+function colebrook(Re: number, eps_over_D: number) {
+  // Fixed-point iteration on 1/√f, seeded with Swamee-Jain
+  let x = 1 / Math.sqrt(swameeJain(Re, eps_over_D));
+  for (let i = 0; i < 50; i++) {
+    const next = -2 * Math.log10(eps_over_D / 3.7 + (2.51 * x) / Re);
+    if (Math.abs(next - x) < 1e-10) {
+      x = next;
+      break;
+    }
+    x = next;
+  }
+  return 1 / (x * x);
+}
+
+const TURBULENT: Record<FrictionModel, (Re: number, eps_over_D: number) => number> = {
+  colebrook,
+  swameeJain,
+  haaland,
+  altshulTsal,
+};
+
+/**
+ * Darcy friction factor. 64/Re below Re 2300, the chosen turbulent correlation
+ * above Re 4000, and a smoothstep blend of the two through the transitional band
+ * so f is continuous in Re (the bisection solvers rely on that).
+ */
+export function frictionFactor(
+  Re: number,
+  eps_over_D: number,
+  model: FrictionModel = DEFAULT_FRICTION_MODEL
+) {
+  if (!Number.isFinite(Re) || Re <= 0) return NaN;
+  if (Re < RE_LAMINAR) return 64.0 / Re;
+  const turbulent = TURBULENT[model](Re, eps_over_D);
+  if (Re >= RE_TURBULENT) return turbulent;
+  const t = (Re - RE_LAMINAR) / (RE_TURBULENT - RE_LAMINAR);
+  const w = t * t * (3 - 2 * t);
+  return (1 - w) * (64.0 / Re) + w * turbulent;
+}
+
+export function haalandFrictionFactor(Re: number, eps_over_D: number) {
+  return frictionFactor(Re, eps_over_D, "haaland");
+}
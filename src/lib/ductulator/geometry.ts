@@ -0,0 +1,56 @@
+// ===================== section geometry =====================
+export type DuctShape = "rectangular" | "round" | "flatOval";
+
+export type DuctSection =
+  | { shape: "rectangular"; width_mm: number; height_mm: number }
+  | { shape: "round"; diameter_mm: number }
+  | { shape: "flatOval"; major_mm: number; minor_mm: number };
+
+export function rectArea_m2_from_mm(w_mm: number, h_mm: number) {
+  return Math.max(0, (w_mm / 1000) * (h_mm / 1000));
+}
+
+export function rectPerimeter_m_from_mm(w_mm: number, h_mm: number) {
+  return 2 * ((w_mm / 1000) + (h_mm / 1000));
+}
+
+export function roundArea_m2_from_mm(d_mm: number) {
+  const d = Math.max(0, d_mm / 1000);
+  return (Math.PI * d * d) / 4;
+}
+
+export function roundPerimeter_m_from_mm(d_mm: number) {
+  return Math.PI * Math.max(0, d_mm / 1000);
+}
+
+// Flat oval: two semicircles of the minor axis joined by a flat span of (major − minor).
+// A major axis shorter than the minor is treated as round.
+export function flatOvalArea_m2_from_mm(major_mm: number, minor_mm: number) {
+  const b = Math.max(0, minor_mm / 1000);
+  const flat = Math.max(0, major_mm / 1000 - b);
+  return (Math.PI * b * b) / 4 + b * flat;
+}
+
+export function flatOvalPerimeter_m_from_mm(major_mm: number, minor_mm: number) {
+  const b = Math.max(0, minor_mm / 1000);
+  const flat = Math.max(0, major_mm / 1000 - b);
+  return Math.PI * b + 2 * flat;
+}
+
+export function sectionArea_m2(s: DuctSection) {
+  if (s.shape === "round") return roundArea_m2_from_mm(s.diameter_mm);
+  if (s.shape === "flatOval") return flatOvalArea_m2_from_mm(s.major_mm, s.minor_mm);
+  return rectArea_m2_from_mm(s.width_mm, s.height_mm);
+}
+
+export function sectionPerimeter_m(s: DuctSection) {
+  if (s.shape === "round") return roundPerimeter_m_from_mm(s.diameter_mm);
+  if (s.shape === "flatOval") return flatOvalPerimeter_m_from_mm(s.major_mm, s.minor_mm);
+  return rectPerimeter_m_from_mm(s.width_mm, s.height_mm);
+}
+
+/** Hydraulic diameter 4A/P in metres (0 for an empty section). */
+export function hydraulicDiameter_m(s: DuctSection) {
+  const A = sectionArea_m2(s);
+  return A > 0 ? (4 * A) / sectionPerimeter_m(s) : 0;
+}
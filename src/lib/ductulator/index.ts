@@ -0,0 +1,21 @@
+// Headless duct-sizing engine. Everything here is pure and framework-free so it
+// can be used from pages, scripts and tests without mounting the UI.
+export * from "./units";
+export * from "./air";
+export * from "./friction";
+export * from "./geometry";
+export * from "./equivalent";
+export * from "./materials";
+export * from "./fittings";
+export * from "./engine";
+export * from "./chart";
+export * from "./sweep";
+export * from "./batch";
+export * from "./network";
+export * from "./sizing";
+export * from "./regain";
+export * from "./catalogues";
+export * from "./acoustics";
+export * from "./thermal";
+export * from "./share";
+export * from "./projects";
@@ -0,0 +1,65 @@
+// ===================== duct materials =====================
+// Absolute roughness in metres.
+export const ROUGHNESS: Record<string, number> = {
+  "Galvanised steel": 0.00015,
+  "Mild steel": 0.000045,
+  Aluminium: 0.0000018,
+  PVC: 5e-7,
+};
+
+export const DEFAULT_ROUGHNESS = 0.00015;
+
+/** User-defined materials: name → absolute roughness in metres. */
+export type MaterialLibrary = Record<string, number>;
+
+/** Roughness of a built-in or library material; unknown names get DEFAULT_ROUGHNESS. */
+export function roughnessFor(material: string, library: MaterialLibrary = {}) {
+  if (Object.hasOwn(library, material)) return library[material];
+  return Object.hasOwn(ROUGHNESS, material) ? ROUGHNESS[material] : DEFAULT_ROUGHNESS;
+}
+
+export function isKnownMaterial(material: string, library: MaterialLibrary = {}) {
+  return Object.hasOwn(library, material) || Object.hasOwn(ROUGHNESS, material);
+}
+
+// ---------- library import / export ----------
+// { "ductulatorMaterials": 1, "materials": [{ "name": "Duct board", "roughness_m": 0.0009 }] }
+const LIBRARY_FORMAT = 1;
+const MAX_ROUGHNESS = 0.05; // m; anything rougher is a typo, not a duct
+
+export function materialLibraryToJSON(library: MaterialLibrary) {
+  const materials = Object.entries(library).map(([name, roughness_m]) => ({ name, roughness_m }));
+  return JSON.stringify({ ductulatorMaterials: LIBRARY_FORMAT, materials }, null, 2);
+}
+
+/** Check one entry; returns an error message or null. */
+export function materialError(name: string, roughness_m: number) {
+  if (!name.trim()) return "Material name is empty.";
+  if (Object.hasOwn(ROUGHNESS, name)) return `${name} is a built-in material.`;
+  if (!(roughness_m >= 0 && roughness_m <= MAX_ROUGHNESS)) return `${name}: roughness must be between 0 and 50 mm.`;
+  return null;
+}
+
+/** Read a library exported by materialLibraryToJSON, keeping the valid entries. */
+export function parseMaterialLibrary(text: string): { materials: MaterialLibrary; errors: string[] } {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return { materials: {}, errors: ["Not a JSON file."] };
+  }
+  const list = (data as { materials?: unknown } | null)?.materials;
+  if (!Array.isArray(list)) return { materials: {}, errors: ["No materials list in this file."] };
+
+  const materials: MaterialLibrary = {};
+  const errors: string[] = [];
+  list.forEach((entry, i) => {
+    const name = typeof entry?.name === "string" ? entry.name.trim() : "";
+    // A missing or non-numeric roughness would read as 0, a perfectly smooth duct
+    const roughness_m = typeof entry?.roughness_m === "number" ? entry.roughness_m : NaN;
+    const error = name ? materialError(name, roughness_m) : `Entry ${i + 1}: material name is empty.`;
+    if (error) errors.push(error);
+    else materials[name] = roughness_m;
+  });
+  return { materials, errors };
+}
@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest";
+import type { DuctConditions } from "./engine";
+import { evaluateNetwork, type NetworkSegment } from "./network";
+
+const AIR: DuctConditions = {
+  temperature: 20,
+  rh: 50,
+  pressure: 101325,
+  material: "Galvanised steel",
+  frictionModel: "colebrook",
+};
+
+const seg = (id: string, parentId: string | null, flow_m3s: number, length_m: number, fittingsK = 0): NetworkSegment => ({
+  id,
+  parentId,
+  name: id.toUpperCase(),
+  length_m,
+  flow_m3s,
+  section: { shape: "round", diameter_mm: 250 },
+  fittingsK,
+});
+
+// Main A feeds a short branch B and a long branch D
+const TREE = [seg("a", null, 0.4, 10), seg("b", "a", 0.1, 2), seg("d", "a", 0.3, 40, 1.5)];
+
+describe("evaluateNetwork", () => {
+  it("follows the terminal with the largest loss as the index run", () => {
+    const net = evaluateNetwork(TREE, AIR);
+    expect(net.indexPath).toEqual(["a", "d"]);
+    expect(net.terminals.map((t) => t.id)).toEqual(["d", "b"]);
+    expect(net.fanPressure).toBeCloseTo(net.segments.a.loss + net.segments.d.loss, 9);
+    expect(net.warnings).toEqual([]);
+  });
+
+  it("leaves a loop out and reports it", () => {
+    const net = evaluateNetwork([...TREE, seg("x", "y", 0.1, 5), seg("y", "x", 0.1, 5)], AIR);
+    expect(net.indexPath).toEqual(["a", "d"]);
+    expect(net.segments.x.cumulative).toBeNaN();
+    expect(net.warnings).toContain("Loop in the network — not evaluated: X, Y.");
+  });
+
+  it("keeps a branch without flow out of the index run", () => {
+    for (const order of [[seg("c", "a", 0, 5), ...TREE], [...TREE, seg("c", "a", 0, 5)]]) {
+      const net = evaluateNetwork(order, AIR);
+      expect(net.indexPath).toEqual(["a", "d"]);
+      expect(net.terminals.map((t) => t.id)).toEqual(["d", "b"]);
+      expect(Number.isFinite(net.fanPressure)).toBe(true);
+      expect(net.warnings).toContain("C: enter a flow and size — left out of the index run.");
+    }
+  });
+});
@@ -0,0 +1,120 @@
+import { calcSectionNums, type DuctConditions } from "./engine";
+import type { DuctSection } from "./geometry";
+
+// ===================== duct networks =====================
+/** One duct segment; parentId null means it leaves the fan directly. */
+export interface NetworkSegment {
+  id: string;
+  parentId: string | null;
+  name: string;
+  length_m: number;
+  flow_m3s: number;
+  section: DuctSection;
+  fittingsK: number; // ΣK of fittings in the segment, on its velocity pressure
+}
+
+export interface SegmentResult {
+  id: string;
+  velocity: number; // m/s
+  dp_per_m: number; // Pa/m
+  velocityPressure: number; // Pa
+  friction: number; // Pa
+  fittings: number; // Pa
+  loss: number; // Pa
+  cumulative: number; // Pa, fan to the end of this segment
+  terminal: boolean;
+}
+
+export interface NetworkResult {
+  segments: Record<string, SegmentResult>;
+  terminals: { id: string; pressure: number }[]; // highest first; only those with a finite pressure
+  indexPath: string[]; // fan → index terminal
+  fanPressure: number; // Pa, pressure to the index terminal
+  warnings: string[];
+}
+
+/**
+ * Evaluate every segment with the straight-duct friction model plus its ΣK, then
+ * accumulate losses from the fan to each terminal. The terminal with the
+ * largest cumulative loss is the index run and sets the fan pressure.
+ */
+export function evaluateNetwork(segs: NetworkSegment[], conditions: DuctConditions): NetworkResult {
+  const warnings: string[] = [];
+  const byId = new Map(segs.map((s) => [s.id, s]));
+  const children = new Map<string, NetworkSegment[]>();
+  const parentOf = (s: NetworkSegment) => {
+    if (s.parentId == null) return null;
+    if (!byId.has(s.parentId)) {
+      warnings.push(`${s.name}: upstream segment not found — treated as leaving the fan.`);
+      return null;
+    }
+    return s.parentId;
+  };
+  const parents = new Map(segs.map((s) => [s.id, parentOf(s)]));
+  for (const s of segs) {
+    const p = parents.get(s.id);
+    if (p != null) children.set(p, [...(children.get(p) ?? []), s]);
+  }
+
+  // Own losses
+  const results: Record<string, SegmentResult> = {};
+  for (const s of segs) {
+    const calc = calcSectionNums(s.section, s.flow_m3s, conditions);
+    const friction = Math.max(0, s.length_m) * calc.dp_per_m;
+    const fittings = Math.max(0, s.fittingsK) * calc.velocityPressure;
+    results[s.id] = {
+      id: s.id,
+      velocity: calc.V,
+      dp_per_m: calc.dp_per_m,
+      velocityPressure: calc.velocityPressure,
+      friction,
+      fittings,
+      loss: friction + fittings,
+      cumulative: NaN,
+      terminal: !children.has(s.id),
+    };
+    if (!Number.isFinite(friction + fittings)) {
+      warnings.push(`${s.name}: enter a flow and size — left out of the index run.`);
+    }
+    const downstream = (children.get(s.id) ?? []).reduce((a, c) => a + c.flow_m3s, 0);
+    if (downstream > s.flow_m3s * 1.001) {
+      warnings.push(`${s.name}: carries less flow than the segments it feeds.`);
+    }
+  }
+
+  // Cumulative pressure, walking down from the fan
+  const visit = (id: string, upstream: number, seen: Set<string>) => {
+    if (seen.has(id)) return;
+    seen.add(id);
+    const r = results[id];
+    r.cumulative = upstream + r.loss;
+    for (const c of children.get(id) ?? []) visit(c.id, r.cumulative, seen);
+  };
+  const seen = new Set<string>();
+  for (const s of segs) if (parents.get(s.id) == null) visit(s.id, 0, seen);
+  const orphans = segs.filter((s) => !seen.has(s.id));
+  if (orphans.length) {
+    warnings.push(`Loop in the network — not evaluated: ${orphans.map((s) => s.name).join(", ")}.`);
+  }
+
+  // A blank segment has no pressure, and neither has anything downstream of it
+  const terminals = segs
+    .filter((s) => seen.has(s.id) && results[s.id].terminal && Number.isFinite(results[s.id].cumulative))
+    .map((s) => ({ id: s.id, pressure: results[s.id].cumulative }))
+    .sort((a, b) => b.pressure - a.pressure);
+
+  const indexPath: string[] = [];
+  let id: string | null = terminals[0]?.id ?? null;
+  while (id != null) {
+    indexPath.unshift(id);
+    id = parents.get(id) ?? null;
+  }
+
+  return {
+    segments: results,
+    terminals,
+    indexPath,
+    fanPressure: terminals[0]?.pressure ?? 0,
+    warnings,
+  };
+}
@@ -0,0 +1,107 @@
+import { MODE_LABELS, type DuctResult } from "./engine";
+import type { DuctShape } from "./geometry";
+
+// ===================== saved projects =====================
+/** One saved calculation. Inputs are kept as a shared-link query string. */
+export interface SavedCalc {
+  id: string;
+  savedAt: string; // ISO timestamp
+  note: string; // e.g. "AHU-2 supply main"
+  tag: string;
+  query: string; // encodeSharedCalc of the inputs
+  result: DuctResult | null;
+  warnings: string[];
+}
+
+export interface Project {
+  id: string;
+  name: string;
+  createdAt: string; // ISO timestamp
+  calcs: SavedCalc[]; // newest first
+}
+
+/** Short random id; unique enough for one browser's projects. */
+export function newId() {
+  return Date.now().toString(36) + Math.random().toString(36).slice(2, 8);
+}
+
+export function newProject(name: string): Project {
+  return { id: newId(), name, createdAt: new Date().toISOString(), calcs: [] };
+}
+
+/** Calculations whose note, tag or mode contain every word of the search. */
+export function searchCalcs(calcs: SavedCalc[], search: string) {
+  const words = search.toLowerCase().split(/\s+/).filter(Boolean);
+  if (!words.length) return calcs;
+  return calcs.filter((c) => {
+    const haystack = `${c.note} ${c.tag} ${c.result?.mode ?? ""}`.toLowerCase();
+    return words.every((w) => haystack.includes(w));
+  });
+}
+
+// ---------- project import / export ----------
+const PROJECT_FORMAT = 1;
+
+export function projectToJSON(project: Project) {
+  return JSON.stringify({ ductulatorProject: PROJECT_FORMAT, ...project }, null, 2);
+}
+
+// Dimensions each section shape needs for a result to be shown
+const SHAPE_FIELDS: Record<DuctShape, string[]> = {
+  rectangular: ["width_mm", "height_mm"],
+  round: ["diameter_mm"],
+  flatOval: ["major_mm", "minor_mm"],
+};
+
+// A stored result, if it has a known mode and a complete section; null otherwise
+function readResult(raw: unknown): DuctResult | null {
+  if (!raw || typeof raw !== "object") return null;
+  const r = raw as Record<string, unknown>;
+  if (typeof r.mode !== "string" || !Object.hasOwn(MODE_LABELS, r.mode)) return null;
+  if (typeof r.shape !== "string" || !Object.hasOwn(SHAPE_FIELDS, r.shape)) return null;
+  const fields = SHAPE_FIELDS[r.shape as DuctShape];
+  return fields.every((f) => typeof r[f] === "number" && Number.isFinite(r[f])) ? (r as unknown as DuctResult) : null;
+}
+
+/**
+ * Read a project exported by projectToJSON. It gets a fresh id so importing
+ * never overwrites a project already in the browser; unreadable calculations
+ * are dropped and reported.
+ */
+export function parseProject(text: string): { project: Project | null; errors: string[] } {
+  let data: Record<string, unknown>;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return { project: null, errors: ["Not a JSON file."] };
+  }
+  if (!data || typeof data !== "object" || !Array.isArray(data.calcs)) {
+    return { project: null, errors: ["No calculations in this file — is it a Ductulator project?"] };
+  }
+
+  const errors: string[] = [];
+  const calcs: SavedCalc[] = [];
+  data.calcs.forEach((entry: Record<string, unknown> | null, i: number) => {
+    if (!entry || typeof entry.query !== "string" || !new URLSearchParams(entry.query).has("mode")) {
+      errors.push(`Calculation ${i + 1} has no inputs — skipped.`);
+      return;
+    }
+    const result = readResult(entry.result);
+    if (entry.result != null && !result) {
+      errors.push(`Calculation ${i + 1} has an unreadable result — solve it again from its inputs.`);
+    }
+    calcs.push({
+      id: newId(),
+      savedAt: typeof entry.savedAt === "string" ? entry.savedAt : new Date().toISOString(),
+      note: typeof entry.note === "string" ? entry.note : "",
+      tag: typeof entry.tag === "string" ? entry.tag : "",
+      query: entry.query,
+      result,
+      warnings: Array.isArray(entry.warnings) ? entry.warnings.filter((w): w is string => typeof w === "string") : [],
+    });
+  });
+
+  const name = typeof data.name === "string" && data.name.trim() ? data.name : "Imported project";
+  const createdAt = typeof data.createdAt === "string" ? data.createdAt : new Date().toISOString();
+  return { project: { id: newId(), name, createdAt, calcs }, errors };
+}
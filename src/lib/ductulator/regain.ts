@@ -0,0 +1,145 @@
+import { aspectWarnings, calcSectionNums, type DuctConditions } from "./engine";
+import type { DuctSection } from "./geometry";
+import { sectionForVelocity, type SectionRule } from "./sizing";
+
+// ====================== static-regain sizing ======================
+/** One main segment, ending in a take-off (the last one is the end of the main). */
+export interface RegainSegment {
+  id: string;
+  name: string;
+  length_m: number;
+  takeoffFlow_m3s: number; // leaves the main at the end of this segment
+  fittingsK: number; // ΣK of fittings in the segment, on its velocity pressure
+}
+
+export interface RegainCriteria extends SectionRule {
+  initialVelocity: number; // m/s in the first segment
+  regainCoefficient: number; // R, fraction of the velocity-pressure drop recovered as static
+  minVelocity: number; // m/s, sections never slow down below this
+  startStatic: number; // Pa, static pressure at the start of the main
+}
+
+export interface RegainSegmentResult {
+  id: string;
+  name: string;
+  flow_m3s: number; // through the segment: its take-off plus everything downstream
+  section: DuctSection | null;
+  velocity: number; // m/s
+  velocityPressure: number; // Pa
+  dp_per_m: number; // Pa/m
+  loss: number; // Pa, friction + fittings over the segment
+  regain: number; // Pa recovered at the inlet of this segment
+  staticIn: number; // Pa, after the regain at its inlet
+  staticOut: number; // Pa, at the end of the segment before any regain
+  staticAtTakeoff: number; // Pa, at the take-off at its end, once the next segment has regained
+  shortfall: boolean; // regain could not fully offset the upstream loss
+}
+
+export interface RegainResult {
+  segments: RegainSegmentResult[];
+  warnings: string[];
+}
+
+/**
+ * Static regain: the first segment runs at the initial velocity; every later
+ * segment is slowed down so that R × (VP upstream − VP here) recovers the
+ * friction and fitting loss of the segment before it, which keeps the static
+ * pressure the same at every take-off.
+ */
+export function sizeStaticRegain(
+  segs: RegainSegment[],
+  criteria: RegainCriteria,
+  conditions: DuctConditions
+): RegainResult {
+  const warnings: string[] = [];
+  if (!(criteria.initialVelocity > 0)) warnings.push("Initial velocity must be positive.");
+  if (!(criteria.regainCoefficient > 0 && criteria.regainCoefficient <= 1)) {
+    warnings.push("Regain coefficient must be between 0 and 1.");
+  }
+  if (!(criteria.minVelocity > 0)) warnings.push("Minimum velocity must be positive.");
+  if (criteria.shape === "rectangular" && !(criteria.depth_mm > 0)) {
+    warnings.push("Depth must be positive.");
+  }
+  if (criteria.shape === "rectangular" && criteria.rectBy === "aspect" && !(criteria.maxAspect >= 1)) {
+    warnings.push("Maximum aspect ratio must be at least 1.");
+  }
+  if (warnings.length) return { segments: [], warnings };
+
+  // Flow in each segment: its own take-off plus every take-off downstream
+  const flows: number[] = [];
+  segs.reduceRight((acc, s, i) => (flows[i] = acc + Math.max(0, s.takeoffFlow_m3s)), 0);
+
+  const R = criteria.regainCoefficient;
+  const segments: RegainSegmentResult[] = [];
+  let prev: { vp: number; loss: number; staticOut: number; rho: number } | null = null;
+  segs.forEach((s, i) => {
+    const Q = flows[i];
+    if (!(Q > 0)) {
+      warnings.push(`${s.name}: no flow — main ends before this segment.`);
+      segments.push({
+        id: s.id,
+        name: s.name,
+        flow_m3s: Q,
+        section: null,
+        velocity: NaN,
+        velocityPressure: NaN,
+        dp_per_m: NaN,
+        loss: NaN,
+        regain: NaN,
+        staticIn: NaN,
+        staticOut: NaN,
+        staticAtTakeoff: NaN,
+        shortfall: false,
+      });
+      return;
+    }
+
+    let V = criteria.initialVelocity;
+    let shortfall = false;
+    if (prev) {
+      // VP needed here so the regain exactly offsets the upstream loss
+      const vpNeeded = prev.vp - prev.loss / R;
+      const vpMin = 0.5 * prev.rho * criteria.minVelocity ** 2;
+      if (vpNeeded < vpMin) {
+        shortfall = true;
+        warnings.push(`${s.name}: regain cannot offset the upstream loss above the minimum velocity.`);
+      }
+      V = Math.sqrt((2 * Math.max(vpNeeded, vpMin)) / prev.rho);
+      // Never speed up along the main
+      V = Math.min(V, Math.sqrt((2 * prev.vp) / prev.rho));
+    }
+
+    const section = sectionForVelocity(Q, V, criteria);
+    warnings.push(...aspectWarnings(section).map((w) => `${s.name}: ${w}`));
+    const calc = calcSectionNums(section, Q, conditions);
+    const loss = calc.dp_per_m * Math.max(0, s.length_m) + Math.max(0, s.fittingsK) * calc.velocityPressure;
+    const regain = prev ? R * (prev.vp - calc.velocityPressure) : 0;
+    const staticIn = prev ? prev.staticOut + regain : criteria.startStatic;
+    const staticOut = staticIn - loss;
+
+    segments.push({
+      id: s.id,
+      name: s.name,
+      flow_m3s: Q,
+      section,
+      velocity: calc.V,
+      velocityPressure: calc.velocityPressure,
+      dp_per_m: calc.dp_per_m,
+      loss,
+      regain,
+      staticIn,
+      staticOut,
+      staticAtTakeoff: staticOut,
+      shortfall,
+    });
+    prev = { vp: calc.velocityPressure, loss, staticOut, rho: calc.rho };
+  });
+
+  // A take-off sees the static pressure recovered by the main segment after it
+  segments.forEach((s, i) => {
+    const next = segments[i + 1];
+    if (next?.section) s.staticAtTakeoff = next.staticIn;
+  });
+
+  return { segments, warnings };
+}
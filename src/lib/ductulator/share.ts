@@ -0,0 +1,141 @@
+import { altitudeToPressurePa, maxRHPercent } from "./air";
+import { MODE_LABELS, NO_MAGIC_LOCKS, type MagicLocks, type Mode } from "./engine";
+import { FRICTION_MODELS, type FrictionModel } from "./friction";
+import type { DuctShape } from "./geometry";
+import { UNIT_OPTIONS, type FlowUnit } from "./units";
+
+// ===================== shareable calculation links =====================
+// Everything is stored in SI (mm, m/s, Pa/m, °C, m, Pa) except the flow, which
+// keeps the unit it was entered in.
+export interface SharedCalc {
+  mode: Mode;
+  shape: DuctShape;
+  material: string;
+  roughness_m: number; // so a link still works where the material is not in the library
+  frictionModel: FrictionModel;
+  profile: string; // air profile label; the air itself is given below
+  temperature: number;
+  rh: number;
+  altitude_m: number;
+  pressure: number | null; // Pa; when given the site is set by pressure, not altitude
+  width_mm: number;
+  height_mm: number;
+  diameter_mm: number;
+  major_mm: number;
+  minor_mm: number;
+  aspectRatio: number; // 0 = not set
+  flow: number;
+  flowUnit: FlowUnit;
+  velocity: number;
+  targetDp: number;
+  magicLocks: MagicLocks;
+}
+
+const SHAPES: DuctShape[] = ["rectangular", "round", "flatOval"];
+
+const oneOf =
+  <T extends string>(options: readonly T[]) =>
+  (raw: string) =>
+    (options as readonly string[]).includes(raw) ? (raw as T) : null;
+const number = (min: number, max: number) => (raw: string) => {
+  const n = raw.trim() === "" ? NaN : Number(raw);
+  return n >= min && n <= max ? n : null;
+};
+const text = (raw: string) => (raw.trim() ? raw : null);
+
+const LOCK_KEYS = Object.keys(NO_MAGIC_LOCKS) as (keyof MagicLocks)[];
+function readLocks(raw: string): MagicLocks | null {
+  const keys = raw.split(",").filter(Boolean);
+  if (!keys.every((k) => (LOCK_KEYS as string[]).includes(k))) return null;
+  return { ...NO_MAGIC_LOCKS, ...Object.fromEntries(keys.map((k) => [k, true])) };
+}
+
+// Query parameter for each field, with its check (null = invalid)
+const FIELDS: { [K in keyof SharedCalc]: { param: string; read: (raw: string) => SharedCalc[K] | null } } = {
+  mode: { param: "mode", read: oneOf(Object.keys(MODE_LABELS) as Mode[]) },
+  shape: { param: "shape", read: oneOf(SHAPES) },
+  material: { param: "material", read: text },
+  roughness_m: {
+    param: "eps", // mm
+    read: (raw) => {
+      const mm = number(0, 50)(raw);
+      return mm == null ? null : mm / 1000;
+    },
+  },
+  frictionModel: { param: "friction", read: oneOf(Object.keys(FRICTION_MODELS) as FrictionModel[]) },
+  profile: { param: "profile", read: (raw) => raw },
+  temperature: { param: "T", read: number(-60, 600) },
+  rh: { param: "RH", read: number(0, 100) },
+  altitude_m: { param: "alt", read: number(-500, 6000) },
+  pressure: { param: "p", read: number(40000, 120000) },
+  width_mm: { param: "w", read: number(0, 1e5) },
+  height_mm: { param: "h", read: number(0, 1e5) },
+  diameter_mm: { param: "d", read: number(0, 1e5) },
+  major_mm: { param: "major", read: number(0, 1e5) },
+  minor_mm: { param: "minor", read: number(0, 1e5) },
+  aspectRatio: { param: "aspect", read: number(0, 100) },
+  flow: { param: "q", read: number(0, 1e9) },
+  flowUnit: { param: "qu", read: oneOf(UNIT_OPTIONS.flow) },
+  velocity: { param: "v", read: number(0, 1e3) },
+  targetDp: { param: "dp", read: number(0, 1e5) },
+  magicLocks: { param: "locks", read: readLocks },
+};
+
+const compact = (n: number) => String(Number(n.toPrecision(6)));
+
+/** Query string (without "?") for a calculation. */
+export function encodeSharedCalc(calc: SharedCalc) {
+  const q = new URLSearchParams();
+  for (const key of Object.keys(FIELDS) as (keyof SharedCalc)[]) {
+    const value = calc[key];
+    if (key === "pressure" && value == null) continue;
+    if (key === "altitude_m" && calc.pressure != null) continue;
+    if (key === "magicLocks") {
+      q.set(FIELDS[key].param, LOCK_KEYS.filter((k) => calc.magicLocks[k]).join(","));
+    } else if (key === "roughness_m") {
+      q.set(FIELDS[key].param, compact(calc.roughness_m * 1000));
+    } else {
+      q.set(FIELDS[key].param, typeof value === "number" ? compact(value) : String(value));
+    }
+  }
+  return q.toString();
+}
+
+/**
+ * Read a calculation back from a query string. Anything missing or invalid
+ * keeps its default and is reported; a query with none of our parameters is
+ * not a shared link and returns null.
+ */
+export function decodeSharedCalc(query: string, defaults: SharedCalc): { calc: SharedCalc; warnings: string[] } | null {
+  const q = new URLSearchParams(query);
+  const keys = Object.keys(FIELDS) as (keyof SharedCalc)[];
+  if (!keys.some((k) => q.has(FIELDS[k].param))) return null;
+
+  const calc: SharedCalc = { ...defaults, pressure: null };
+  const invalid: string[] = [];
+  const missing: string[] = [];
+  for (const key of keys) {
+    const { param, read } = FIELDS[key];
+    const raw = q.get(param);
+    // The site is given either by altitude or by pressure
+    if (raw == null) {
+      if (key === "pressure" || (key === "altitude_m" && q.has(FIELDS.pressure.param))) continue;
+      missing.push(param);
+      continue;
+    }
+    const value = read(raw);
+    if (value == null) invalid.push(`${param}=${raw}`);
+    else (calc as Record<keyof SharedCalc, unknown>)[key] = value;
+  }
+
+  const warnings: string[] = [];
+  if (invalid.length) warnings.push(`Link has invalid ${invalid.join(", ")} — defaults used instead.`);
+  if (missing.length) warnings.push(`Link is missing ${missing.join(", ")} — defaults used instead.`);
+  // Above the boiling point not every RH is possible
+  const maxRH = maxRHPercent(calc.pressure ?? altitudeToPressurePa(calc.altitude_m), calc.temperature);
+  if (calc.rh > maxRH) {
+    warnings.push(`Link has RH ${calc.rh} % at ${calc.temperature} °C, more than the air can hold — ${maxRH.toFixed(1)} % used instead.`);
+    calc.rh = Number(maxRH.toFixed(1));
+  }
+  return { calc, warnings };
+}
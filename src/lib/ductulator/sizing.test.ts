@@ -0,0 +1,50 @@
+import { describe, expect, it } from "vitest";
+import type { DuctConditions } from "./engine";
+import { sizeSchedule, type ScheduleSegment, type SizingCriteria } from "./sizing";
+
+const AIR: DuctConditions = {
+  temperature: 20,
+  rh: 50,
+  pressure: 101325,
+  material: "Galvanised steel",
+  frictionModel: "colebrook",
+};
+
+// A 2 m³/s main at 200 mm deep comes out far flatter than 4:1
+const MAIN: ScheduleSegment[] = [{ id: "1", parentId: null, name: "Main", length_m: 10, terminalFlow_m3s: 2 }];
+
+const CRITERIA: SizingCriteria = {
+  shape: "rectangular",
+  targetDp: 1,
+  maxVelocity: 20,
+  rectBy: "depth",
+  depth_mm: 200,
+  maxAspect: 3,
+};
+
+const aspect = (s: ReturnType<typeof sizeSchedule>) => {
+  const sec = s.segments[0].section;
+  if (sec?.shape !== "rectangular") throw new Error("not sized");
+  return sec.width_mm / sec.height_mm;
+};
+
+describe("sizeSchedule", () => {
+  it("keeps a fixed depth and warns when the section is flatter than 4:1", () => {
+    const sized = sizeSchedule(MAIN, CRITERIA, AIR);
+    expect(sized.segments[0].section).toMatchObject({ height_mm: 200 });
+    expect(aspect(sized)).toBeGreaterThan(4);
+    expect(sized.warnings.some((w) => w.startsWith("Main: Aspect ratio"))).toBe(true);
+  });
+
+  it("treats the maximum aspect ratio as a limit on the depth", () => {
+    const capped = sizeSchedule(MAIN, { ...CRITERIA, rectBy: "aspect" }, AIR);
+    expect(aspect(capped)).toBeCloseTo(3, 6);
+    expect(capped.segments[0].dp_per_m).toBeCloseTo(1, 3);
+
+    // A section that fits keeps the depth
+    const fits = sizeSchedule(MAIN, { ...CRITERIA, rectBy: "aspect", depth_mm: 500 }, AIR);
+    expect(fits.segments[0].section).toMatchObject({ height_mm: 500 });
+    expect(aspect(fits)).toBeLessThanOrEqual(3);
+    expect(fits.warnings).toEqual([]);
+  });
+});
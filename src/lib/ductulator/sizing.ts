@@ -0,0 +1,172 @@
+import {
+  aspectWarnings,
+  calcSectionNums,
+  solveAspectRect,
+  solveDiameter,
+  solveMissingDimension,
+  type DuctConditions,
+} from "./engine";
+import { sectionArea_m2, type DuctSection } from "./geometry";
+
+// ================== equal-friction schedule sizing ==================
+export type SizingShape = "round" | "rectangular";
+
+/** How a size is built from an area: round, or rectangular at a fixed depth, optionally within an aspect limit. */
+export type SectionRule = Pick<SizingCriteria, "shape" | "rectBy" | "depth_mm" | "maxAspect">;
+
+export interface SizingCriteria {
+  shape: SizingShape;
+  targetDp: number; // Pa/m design friction rate
+  maxVelocity: number; // m/s, sections grow until they respect it
+  rectBy: "depth" | "aspect"; // rectangular: always the fixed depth, or that depth unless it breaks maxAspect
+  depth_mm: number;
+  maxAspect: number; // upper bound on long/short side, "aspect" only
+}
+
+/** One schedule line; flow is the air it delivers itself (outlets), not what passes through. */
+export interface ScheduleSegment {
+  id: string;
+  parentId: string | null; // null = leaves the fan
+  name: string;
+  length_m: number;
+  terminalFlow_m3s: number;
+}
+
+export interface SizedSegment {
+  id: string;
+  name: string;
+  flow_m3s: number; // own terminal flow plus everything downstream
+  section: DuctSection | null; // null when it could not be sized
+  velocity: number; // m/s
+  dp_per_m: number; // Pa/m
+  friction: number; // Pa over the segment length
+  limitedBy: "friction" | "velocity";
+}
+
+export interface SizedSchedule {
+  segments: SizedSegment[]; // input order
+  warnings: string[];
+}
+
+/** Flow through every segment: its own terminal flow plus all segments downstream of it. */
+export function sumFlowsUpstream(segs: ScheduleSegment[]) {
+  const byId = new Map(segs.map((s) => [s.id, s]));
+  const children = new Map<string, ScheduleSegment[]>();
+  for (const s of segs) {
+    if (s.parentId != null && byId.has(s.parentId)) {
+      children.set(s.parentId, [...(children.get(s.parentId) ?? []), s]);
+    }
+  }
+  const flows: Record<string, number> = {};
+  const looped = new Set<string>();
+  const total = (s: ScheduleSegment, path: Set<string>): number => {
+    if (s.id in flows) return flows[s.id];
+    if (path.has(s.id)) {
+      looped.add(s.id);
+      return 0;
+    }
+    path.add(s.id);
+    const own = Math.max(0, s.terminalFlow_m3s);
+    const q = (children.get(s.id) ?? []).reduce((a, c) => a + total(c, path), own);
+    path.delete(s.id);
+    flows[s.id] = q;
+    return q;
+  };
+  for (const s of segs) total(s, new Set());
+  return { flows, looped: [...looped] };
+}
+
+const aspectOf = (w_mm: number, h_mm: number) => Math.max(w_mm / h_mm, h_mm / w_mm);
+
+// A rectangle at the fixed depth is kept unless the rule caps the aspect ratio and it breaks the cap
+const keepsDepth = (w_mm: number, c: SectionRule) => c.rectBy === "depth" || aspectOf(w_mm, c.depth_mm) <= c.maxAspect;
+
+/** Section that carries Q at exactly the given velocity. */
+export function sectionForVelocity(Q_m3s: number, velocity: number, c: SectionRule): DuctSection {
+  const A = Q_m3s / velocity;
+  if (c.shape === "round") return { shape: "round", diameter_mm: Math.sqrt((4 * A) / Math.PI) * 1000 };
+  const w_mm = (A / (c.depth_mm / 1000)) * 1000;
+  if (keepsDepth(w_mm, c)) return { shape: "rectangular", width_mm: w_mm, height_mm: c.depth_mm };
+  const h = Math.sqrt(A / c.maxAspect);
+  return { shape: "rectangular", width_mm: c.maxAspect * h * 1000, height_mm: h * 1000 };
+}
+
+/** Section sized to the design friction rate with the same bisection Fixed Dim uses. */
+function frictionSizedSection(Q_m3s: number, c: SizingCriteria, conditions: DuctConditions): DuctSection | null {
+  if (c.shape === "round") {
+    const sol = solveDiameter({ Q_m3s, targetDpPaPerM: c.targetDp }, conditions);
+    return sol && { shape: "round", diameter_mm: sol.displayValueMm };
+  }
+  const atDepth = solveMissingDimension(
+    { fixedIsWidth: false, fixedValueDisplay: c.depth_mm, Q_m3s, targetDpPaPerM: c.targetDp },
+    conditions
+  );
+  if (atDepth && keepsDepth(atDepth.displayValueMm, c)) {
+    return { shape: "rectangular", width_mm: atDepth.displayValueMm, height_mm: c.depth_mm };
+  }
+  if (c.rectBy === "depth") return null;
+  // Too flat or too narrow at that depth: the section at the limit instead
+  const sol = solveAspectRect({ aspect: c.maxAspect, Q_m3s, targetDpPaPerM: c.targetDp }, conditions);
+  return sol && { shape: "rectangular", width_mm: sol.width_mm, height_mm: sol.height_mm };
+}
+
+/**
+ * Equal-friction sizing: sum the flows upstream, size every segment to the
+ * design Pa/m, then enlarge any segment that would exceed the velocity limit.
+ */
+export function sizeSchedule(
+  segs: ScheduleSegment[],
+  criteria: SizingCriteria,
+  conditions: DuctConditions
+): SizedSchedule {
+  const invalid: string[] = [];
+  if (!(criteria.targetDp > 0)) invalid.push("Design friction rate must be positive.");
+  if (!(criteria.maxVelocity > 0)) invalid.push("Maximum velocity must be positive.");
+  if (criteria.shape === "rectangular" && !(criteria.depth_mm > 0)) {
+    invalid.push("Depth must be positive.");
+  }
+  if (criteria.shape === "rectangular" && criteria.rectBy === "aspect" && !(criteria.maxAspect >= 1)) {
+    invalid.push("Maximum aspect ratio must be at least 1.");
+  }
+  const criteriaOk = invalid.length === 0;
+  const warnings = [...invalid];
+
+  const ids = new Set(segs.map((s) => s.id));
+  for (const s of segs) {
+    if (s.parentId != null && !ids.has(s.parentId)) {
+      warnings.push(`${s.name}: upstream segment not found — treated as leaving the fan.`);
+    }
+  }
+  const { flows, looped } = sumFlowsUpstream(segs);
+  if (looped.length) warnings.push("Loop in the schedule — flows on the loop are incomplete.");
+
+  const segments = segs.map((s): SizedSegment => {
+    const Q = flows[s.id] ?? 0;
+    let section = criteriaOk && Q > 0 ? frictionSizedSection(Q, criteria, conditions) : null;
+    let limitedBy: SizedSegment["limitedBy"] = "friction";
+    if (section) {
+      const byVelocity = sectionForVelocity(Q, criteria.maxVelocity, criteria);
+      if (sectionArea_m2(byVelocity) > sectionArea_m2(section)) {
+        section = byVelocity;
+        limitedBy = "velocity";
+      }
+    }
+    if (!section) {
+      if (criteriaOk) warnings.push(`${s.name}: ${Q > 0 ? "could not be sized" : "no flow — not sized"}.`);
+      return { id: s.id, name: s.name, flow_m3s: Q, section: null, velocity: NaN, dp_per_m: NaN, friction: NaN, limitedBy };
+    }
+    warnings.push(...aspectWarnings(section).map((w) => `${s.name}: ${w}`));
+    const calc = calcSectionNums(section, Q, conditions);
+    return {
+      id: s.id,
+      name: s.name,
+      flow_m3s: Q,
+      section,
+      velocity: calc.V,
+      dp_per_m: calc.dp_per_m,
+      friction: calc.dp_per_m * Math.max(0, s.length_m),
+      limitedBy,
+    };
+  });
+  return { segments, warnings };
+}
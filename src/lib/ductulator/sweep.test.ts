@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest";
+import { NO_MAGIC_LOCKS, type DuctInputs } from "./engine";
+import { sweepError, type SweepSpec } from "./sweep";
+
+const INPUTS: DuctInputs = {
+  temperature: 20,
+  rh: 50,
+  pressure: 101325,
+  material: "Galvanised steel",
+  frictionModel: "colebrook",
+  mode: "pressureDrop",
+  shape: "rectangular",
+  width_mm: 400,
+  height_mm: 250,
+  diameter_mm: 0,
+  major_mm: 0,
+  minor_mm: 0,
+  aspectRatio: 0,
+  flow: 500,
+  flowUnit: "L/s",
+  velocity: 0,
+  targetDp: 1,
+  magicLocks: NO_MAGIC_LOCKS,
+};
+
+const spec = (variable: SweepSpec["variable"]): SweepSpec => ({ variable, from: 100, to: 500, step: 100 });
+
+describe("sweepError", () => {
+  it("accepts any input of a Pressure Drop calculation", () => {
+    for (const v of ["flow", "width", "height"] as const) expect(sweepError(spec(v), INPUTS)).toBeNull();
+  });
+
+  it("rejects the flow Max Flow mode solves", () => {
+    expect(sweepError(spec("flow"), { ...INPUTS, mode: "maxFlow" })).toMatch(/Max Flow/);
+    expect(sweepError(spec("width"), { ...INPUTS, mode: "maxFlow" })).toBeNull();
+  });
+
+  it("rejects the side Fixed Dim mode solves", () => {
+    const fixed = { ...INPUTS, mode: "fixedDim" as const, height_mm: 0 };
+    expect(sweepError(spec("height"), fixed)).toMatch(/Fixed Dim/);
+    expect(sweepError(spec("width"), fixed)).toBeNull();
+    expect(sweepError(spec("flow"), fixed)).toBeNull();
+  });
+
+  it("only sweeps locked fields in Magic mode", () => {
+    const magic = { ...INPUTS, mode: "magic" as const, magicLocks: { ...NO_MAGIC_LOCKS, flow: true, width: true } };
+    expect(sweepError(spec("flow"), magic)).toBeNull();
+    expect(sweepError(spec("width"), magic)).toBeNull();
+    expect(sweepError(spec("height"), magic)).toMatch(/lock it/);
+  });
+});
@@ -0,0 +1,107 @@
+import {
+  MODE_LABELS,
+  calcSectionNums,
+  resultFlow_m3s,
+  solveDuct,
+  type DuctInputs,
+  type DuctResult,
+  type SectionCalc,
+} from "./engine";
+
+// ======================= parameter sweeps =======================
+// One input stepped over a range, the normal solver run at every step.
+
+export type SweepVariable = "flow" | "width" | "height" | "temperature" | "rh";
+
+export const SWEEP_VARIABLES: Record<SweepVariable, string> = {
+  flow: "Flow",
+  width: "Width",
+  height: "Height",
+  temperature: "Temperature",
+  rh: "Relative humidity",
+};
+
+/** Most points one sweep may run. */
+export const MAX_SWEEP_POINTS = 200;
+
+/** Range in SI: m³/s, mm, °C or %. A range may run downwards; the step is always positive. */
+export interface SweepSpec {
+  variable: SweepVariable;
+  from: number;
+  to: number;
+  step: number;
+}
+
+export interface SweepPoint {
+  value: number; // the swept input, SI
+  result: DuctResult | null;
+  calc: SectionCalc | null; // the solved section at the flow it carries
+  flow_m3s: number;
+  warnings: string[];
+}
+
+// Flow, width and height may be what the mode works out rather than an input; stepping those changes nothing
+function solvedHere(variable: SweepVariable, inputs: DuctInputs) {
+  const { mode, magicLocks } = inputs;
+  if (variable === "flow") return mode === "maxFlow" || (mode === "magic" && !magicLocks.flow);
+  if (variable !== "width" && variable !== "height") return false;
+  if (mode === "magic") return !magicLocks[variable];
+  const side = variable === "width" ? inputs.width_mm : inputs.height_mm;
+  return mode === "fixedDim" && !(side > 0);
+}
+
+/** Why a sweep cannot run, or null. */
+export function sweepError(spec: SweepSpec, inputs: DuctInputs) {
+  const { variable, from, to, step } = spec;
+  if (![from, to, step].every(Number.isFinite)) return "Enter a start, end and step.";
+  if (step <= 0) return "The step must be greater than zero.";
+  if ((variable === "width" || variable === "height") && inputs.shape !== "rectangular") {
+    return "Width and height sweeps need a rectangular duct.";
+  }
+  if (solvedHere(variable, inputs)) {
+    return inputs.mode === "magic"
+      ? `${SWEEP_VARIABLES[variable]} is not locked, so Magic Mode solves it — lock it to sweep it.`
+      : `${SWEEP_VARIABLES[variable]} is what ${MODE_LABELS[inputs.mode]} mode solves here, so it cannot be swept.`;
+  }
+  if (variable === "rh" && (from < 0 || to < 0 || from > 100 || to > 100)) return "Relative humidity runs from 0 to 100 %.";
+  if (variable !== "temperature" && (from < 0 || to < 0)) return `${SWEEP_VARIABLES[variable]} cannot be negative.`;
+  if (Math.floor(Math.abs(to - from) / step + 1e-9) + 1 > MAX_SWEEP_POINTS) {
+    return `That is more than ${MAX_SWEEP_POINTS} points — use a larger step.`;
+  }
+  return null;
+}
+
+/** Values from start to end inclusive; the end is added when the step overshoots it. */
+export function sweepValues({ from, to, step }: SweepSpec) {
+  const dir = to >= from ? 1 : -1;
+  const n = Math.floor(Math.abs(to - from) / step + 1e-9);
+  const values = Array.from({ length: n + 1 }, (_, i) => from + dir * i * step);
+  if (Math.abs(values[n] - to) > step * 1e-6) values.push(to);
+  return values;
+}
+
+function withValue(inputs: DuctInputs, variable: SweepVariable, v: number): DuctInputs {
+  switch (variable) {
+    case "flow":
+      return { ...inputs, flow: v, flowUnit: "m³/s" };
+    case "width":
+      return { ...inputs, width_mm: v };
+    case "height":
+      return { ...inputs, height_mm: v };
+    case "temperature":
+      return { ...inputs, temperature: v };
+    case "rh":
+      return { ...inputs, rh: v };
+  }
+}
+
+/** Solve the calculation at every value of the swept input. Check sweepError first. */
+export function runSweep(inputs: DuctInputs, spec: SweepSpec): SweepPoint[] {
+  return sweepValues(spec).map((value) => {
+    const stepInputs = withValue(inputs, spec.variable, value);
+    const { result, warnings } = solveDuct(stepInputs);
+    const flow_m3s = result ? resultFlow_m3s(result) : 0;
+    const calc = result && flow_m3s > 0 ? calcSectionNums(result, flow_m3s, stepInputs) : null;
+    return { value, result, calc, flow_m3s, warnings };
+  });
+}
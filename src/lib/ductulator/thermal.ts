@@ -0,0 +1,164 @@
+import { dewPointC } from "./air";
+import { calcSectionNums, type DuctConditions } from "./engine";
+import { sectionPerimeter_m, type DuctSection } from "./geometry";
+
+// ===================== heat gain / loss along a duct =====================
+export interface Insulation {
+  conductivity: number; // W/(m·K)
+  emissivity: number; // outer facing, for the radiant part of the surface film
+}
+
+// Typical declared values at 10 °C mean temperature
+export const INSULATION_TYPES: Record<string, Insulation> = {
+  "Mineral wool, foil-faced": { conductivity: 0.035, emissivity: 0.05 },
+  "Glass wool, foil-faced": { conductivity: 0.037, emissivity: 0.05 },
+  "Nitrile rubber": { conductivity: 0.036, emissivity: 0.9 },
+  "Phenolic foam, foil-faced": { conductivity: 0.022, emissivity: 0.05 },
+  "Polyethylene foam": { conductivity: 0.04, emissivity: 0.9 },
+};
+
+const BARE_EMISSIVITY = 0.25; // galvanised sheet
+const CP_AIR = 1006; // J/(kg·K)
+const SIGMA = 5.670374e-8; // W/(m²·K⁴)
+const STILL_AIR_CONVECTION = 3.5; // W/(m²·K), natural convection outside the duct
+const MAX_THICKNESS_MM = 300;
+
+export interface ThermalInputs {
+  length_m: number;
+  insulation: Insulation;
+  thickness_mm: number; // 0 for a bare duct
+  ambientT: number; // °C around the duct
+  ambientRH: number; // %
+}
+
+export interface ThermalResult {
+  uaPerMetre: number; // W/(m·K), air to ambient
+  heatGain: number; // W into the air; negative when the air loses heat
+  outletT: number; // °C
+  surfaceT: number; // °C, coldest outer surface along the run
+  ambientDewPoint: number; // °C
+  innerSurfaceT: number; // °C, coldest inner wall along the run
+  airDewPoint: number; // °C of the air in the duct
+  condensation: boolean; // outer surface sweats
+  internalCondensation: boolean; // duct air condenses on the inner wall
+  minThickness_mm: number | null; // least insulation that keeps the outside dry; null if none will
+  warnings: string[];
+}
+
+// Section grown by the insulation on every side
+function insulatedSection(s: DuctSection, t_mm: number): DuctSection {
+  if (s.shape === "round") return { shape: "round", diameter_mm: s.diameter_mm + 2 * t_mm };
+  if (s.shape === "flatOval") return { shape: "flatOval", major_mm: s.major_mm + 2 * t_mm, minor_mm: s.minor_mm + 2 * t_mm };
+  return { shape: "rectangular", width_mm: s.width_mm + 2 * t_mm, height_mm: s.height_mm + 2 * t_mm };
+}
+
+/** Combined convective and radiant film coefficient on the outside of the duct, W/(m²·K). */
+export function externalFilmCoefficient(emissivity: number, ambientT: number) {
+  const T = ambientT + 273.15;
+  return STILL_AIR_CONVECTION + 4 * emissivity * SIGMA * T ** 3;
+}
+
+// Thermal resistances per metre of duct, K·m/W: inside film, insulation, outside film
+function resistances(
+  section: DuctSection,
+  calc: { Re: number; Dh: number },
+  T_air: number,
+  inputs: ThermalInputs,
+  thickness_mm: number
+) {
+  const Pi = sectionPerimeter_m(section);
+  const Po = sectionPerimeter_m(insulatedSection(section, thickness_mm));
+  // Dittus–Boelter, with the laminar limit as a floor
+  const kAir = 0.0241 + 7.7e-5 * T_air;
+  const Nu = Math.max(0.023 * calc.Re ** 0.8 * 0.71 ** 0.4, 3.66);
+  const hi = (Nu * kAir) / Math.max(calc.Dh, 1e-9);
+  const t = thickness_mm / 1000;
+  // Log-mean perimeter: exact for a round duct, close enough for the others
+  const Pm = Po > Pi ? (Po - Pi) / Math.log(Po / Pi) : Pi;
+  const emissivity = thickness_mm > 0 ? inputs.insulation.emissivity : BARE_EMISSIVITY;
+  return {
+    inner: 1 / (hi * Pi),
+    wall: t > 0 ? t / (inputs.insulation.conductivity * Pm) : 0,
+    outer: 1 / (externalFilmCoefficient(emissivity, inputs.ambientT) * Po),
+  };
+}
+
+/**
+ * Air temperature change along an insulated run and the surface temperatures
+ * at both ends, checked against the ambient dew point outside and the duct
+ * air's own dew point inside.
+ */
+export function ductHeatTransfer(
+  section: DuctSection,
+  Q_m3s: number,
+  conditions: DuctConditions,
+  inputs: ThermalInputs
+): ThermalResult {
+  const calc = calcSectionNums(section, Q_m3s, conditions);
+  const T_in = conditions.temperature;
+  const { ambientT } = inputs;
+  const mcp = calc.rho * Math.abs(Q_m3s) * CP_AIR; // W/K
+  const ambientDewPoint = dewPointC(conditions.pressure, ambientT, inputs.ambientRH);
+  const airDewPoint = dewPointC(conditions.pressure, T_in, conditions.rh);
+
+  const evaluate = (thickness_mm: number) => {
+    const R = resistances(section, calc, T_in, inputs, thickness_mm);
+    const total = R.inner + R.wall + R.outer;
+    const ua = 1 / total;
+    const outletT = mcp > 0 ? ambientT + (T_in - ambientT) * Math.exp((-ua * inputs.length_m) / mcp) : ambientT;
+    // Surfaces sit on the resistance chain between air and ambient; check both ends of the run
+    const ends = [T_in, outletT];
+    const surfaceT = Math.min(...ends.map((T) => ambientT - ((ambientT - T) * R.outer) / total));
+    const innerSurfaceT = Math.min(...ends.map((T) => T - ((T - ambientT) * R.inner) / total));
+    return { ua, outletT, surfaceT, innerSurfaceT };
+  };
+
+  const thickness = Math.max(inputs.thickness_mm, 0);
+  const r = evaluate(thickness);
+  const condensation = r.surfaceT < ambientDewPoint;
+  const internalCondensation = r.innerSurfaceT < airDewPoint;
+
+  // Surface temperature rises with thickness, so bisect for the least that stays dry
+  let minThickness_mm: number | null = 0;
+  if (evaluate(0).surfaceT < ambientDewPoint) {
+    if (evaluate(MAX_THICKNESS_MM).surfaceT < ambientDewPoint) {
+      minThickness_mm = null;
+    } else {
+      let lo = 0;
+      let hi = MAX_THICKNESS_MM;
+      for (let i = 0; i < 40; i++) {
+        const mid = (lo + hi) / 2;
+        if (evaluate(mid).surfaceT < ambientDewPoint) lo = mid;
+        else hi = mid;
+      }
+      minThickness_mm = Math.ceil(hi / 5) * 5; // next 5 mm product size
+    }
+  }
+
+  const warnings: string[] = [];
+  if (!(mcp > 0)) warnings.push("Enter a flow to work out the temperature change along the run.");
+  if (condensation) {
+    warnings.push(
+      minThickness_mm == null
+        ? "Outer surface falls below the ambient dew point even with the thickest insulation of this type — add a vapour barrier or dry the space."
+        : "Outer surface falls below the ambient dew point — the duct will sweat. Fit at least the minimum insulation thickness."
+    );
+  }
+  if (internalCondensation) {
+    warnings.push("Inner wall falls below the dew point of the duct air — moisture will condense inside the duct.");
+  }
+
+  return {
+    uaPerMetre: r.ua,
+    heatGain: mcp * (r.outletT - T_in),
+    outletT: r.outletT,
+    surfaceT: r.surfaceT,
+    ambientDewPoint,
+    innerSurfaceT: r.innerSurfaceT,
+    airDewPoint,
+    condensation,
+    internalCondensation,
+    minThickness_mm,
+    warnings,
+  };
+}
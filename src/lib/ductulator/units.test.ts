@@ -0,0 +1,31 @@
+import { describe, expect, it } from "vitest";
+import { UNIT_OPTIONS, convertUnit, fromSI, toSI, type Quantity, type UnitPrefs } from "./units";
+
+describe("units", () => {
+  it("converts known values", () => {
+    expect(toSI("flow", 1000, "CFM")).toBeCloseTo(0.471947, 6);
+    expect(toSI("velocity", 1000, "fpm")).toBeCloseTo(5.08, 10);
+    expect(toSI("length", 1, "in")).toBeCloseTo(25.4, 10);
+    expect(toSI("temperature", 68, "°F")).toBeCloseTo(20, 10);
+    expect(toSI("dp", 0.1, "in.wg/100 ft")).toBeCloseTo(0.8176, 3);
+    expect(toSI("humidityRatio", 7000, "gr/lb")).toBeCloseTo(1, 10);
+    expect(toSI("enthalpy", 1, "Btu/lb")).toBeCloseTo(2326, 6);
+    expect(toSI("specificVolume", 13.5, "ft³/lb")).toBeCloseTo(0.8428, 4);
+    expect(toSI("viscosity", 0.0438, "lb/(ft·h)")).toBeCloseTo(1.811e-5, 8);
+  });
+
+  it("round-trips every unit through SI", () => {
+    for (const q of Object.keys(UNIT_OPTIONS) as Quantity[]) {
+      for (const unit of UNIT_OPTIONS[q] as UnitPrefs[Quantity][]) {
+        expect(fromSI(q, toSI(q, 123.456, unit), unit)).toBeCloseTo(123.456, 9);
+      }
+    }
+  });
+
+  it("round-trips convertUnit between systems", () => {
+    const there = convertUnit("flow", 100, "L/s", "CFM");
+    expect(convertUnit("flow", there, "CFM", "L/s")).toBeCloseTo(100, 1);
+    const t = convertUnit("temperature", 20, "°C", "°F");
+    expect(convertUnit("temperature", t, "°F", "°C")).toBeCloseTo(20, 6);
+  });
+});
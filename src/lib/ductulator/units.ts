@@ -0,0 +1,207 @@
+// ===================== unit conversions =====================
+// Solvers work in SI throughout (mm for section sizes); everything the user
+// types or reads passes through toSI / fromSI below.
+export type UnitSystem = "SI" | "IP";
+
+export type LengthUnit = "mm" | "m" | "in" | "ft";
+export type FlowUnit = "L/s" | "m³/s" | "m³/h" | "CFM";
+export type VelocityUnit = "m/s" | "fpm";
+export type DpUnit = "Pa/m" | "Pa/100 ft" | "in.wg/100 ft";
+export type PressureUnit = "Pa" | "in.wg";
+export type TemperatureUnit = "°C" | "°F";
+export type DistanceUnit = "m" | "ft"; // run lengths and site altitude
+export type BarometricUnit = "kPa" | "hPa" | "inHg" | "psi";
+export type DensityUnit = "kg/m³" | "lb/ft³";
+export type PowerUnit = "W" | "kW" | "Btu/h";
+export type HumidityRatioUnit = "g/kg" | "gr/lb";
+export type EnthalpyUnit = "kJ/kg" | "Btu/lb";
+export type SpecificVolumeUnit = "m³/kg" | "ft³/lb";
+export type MassFlowUnit = "kg/s" | "kg/h" | "lb/h";
+export type ViscosityUnit = "µPa·s" | "lb/(ft·h)";
+
+/** Display unit chosen for each physical quantity. */
+export interface UnitPrefs {
+  length: LengthUnit;
+  flow: FlowUnit;
+  velocity: VelocityUnit;
+  dp: DpUnit;
+  pressure: PressureUnit;
+  temperature: TemperatureUnit;
+  distance: DistanceUnit;
+  barometric: BarometricUnit;
+  density: DensityUnit;
+  power: PowerUnit;
+  humidityRatio: HumidityRatioUnit;
+  enthalpy: EnthalpyUnit;
+  specificVolume: SpecificVolumeUnit;
+  massFlow: MassFlowUnit;
+  viscosity: ViscosityUnit;
+}
+export type Quantity = keyof UnitPrefs;
+
+export const UNIT_SYSTEMS: Record<UnitSystem, UnitPrefs> = {
+  SI: {
+    length: "mm",
+    flow: "L/s",
+    velocity: "m/s",
+    dp: "Pa/m",
+    pressure: "Pa",
+    temperature: "°C",
+    distance: "m",
+    barometric: "kPa",
+    density: "kg/m³",
+    power: "W",
+    humidityRatio: "g/kg",
+    enthalpy: "kJ/kg",
+    specificVolume: "m³/kg",
+    massFlow: "kg/s",
+    viscosity: "µPa·s",
+  },
+  IP: {
+    length: "in",
+    flow: "CFM",
+    velocity: "fpm",
+    dp: "in.wg/100 ft",
+    pressure: "in.wg",
+    temperature: "°F",
+    distance: "ft",
+    barometric: "inHg",
+    density: "lb/ft³",
+    power: "Btu/h",
+    humidityRatio: "gr/lb",
+    enthalpy: "Btu/lb",
+    specificVolume: "ft³/lb",
+    massFlow: "lb/h",
+    viscosity: "lb/(ft·h)",
+  },
+};
+
+const FT = 0.3048; // m
+const IN_WG = 249.08891; // Pa
+const LB = 0.45359237; // kg
+
+// Multiply by these to get the solver's SI unit (mm, m³/s, m/s, Pa/m, Pa, m, Pa, kg/m³, W,
+// kg/kg dry air, J/kg, m³/kg, kg/s, Pa·s).
+const SCALE: { [Q in Exclude<Quantity, "temperature">]: Record<UnitPrefs[Q], number> } = {
+  length: { mm: 1, m: 1000, in: 25.4, ft: 304.8 },
+  flow: { "L/s": 0.001, "m³/s": 1, "m³/h": 1 / 3600, CFM: (FT * FT * FT) / 60 },
+  velocity: { "m/s": 1, fpm: FT / 60 },
+  dp: { "Pa/m": 1, "Pa/100 ft": 1 / (100 * FT), "in.wg/100 ft": IN_WG / (100 * FT) },
+  pressure: { Pa: 1, "in.wg": IN_WG },
+  distance: { m: 1, ft: FT },
+  barometric: { kPa: 1000, hPa: 100, inHg: 3386.389, psi: 6894.757 },
+  density: { "kg/m³": 1, "lb/ft³": 16.018463 },
+  power: { W: 1, kW: 1000, "Btu/h": 0.29307107 },
+  humidityRatio: { "g/kg": 0.001, "gr/lb": 1 / 7000 },
+  enthalpy: { "kJ/kg": 1000, "Btu/lb": 2326 },
+  specificVolume: { "m³/kg": 1, "ft³/lb": (FT * FT * FT) / LB },
+  massFlow: { "kg/s": 1, "kg/h": 1 / 3600, "lb/h": LB / 3600 },
+  viscosity: { "µPa·s": 1e-6, "lb/(ft·h)": LB / (FT * 3600) },
+};
+
+/** Units offered for each quantity, in menu order. */
+export const UNIT_OPTIONS: { [Q in Quantity]: UnitPrefs[Q][] } = {
+  length: ["mm", "m", "in", "ft"],
+  flow: ["L/s", "m³/s", "m³/h", "CFM"],
+  velocity: ["m/s", "fpm"],
+  dp: ["Pa/m", "Pa/100 ft", "in.wg/100 ft"],
+  pressure: ["Pa", "in.wg"],
+  temperature: ["°C", "°F"],
+  distance: ["m", "ft"],
+  barometric: ["kPa", "hPa", "inHg", "psi"],
+  density: ["kg/m³", "lb/ft³"],
+  power: ["W", "kW", "Btu/h"],
+  humidityRatio: ["g/kg", "gr/lb"],
+  enthalpy: ["kJ/kg", "Btu/lb"],
+  specificVolume: ["m³/kg", "ft³/lb"],
+  massFlow: ["kg/s", "kg/h", "lb/h"],
+  viscosity: ["µPa·s", "lb/(ft·h)"],
+};
+
+/** Decimal places that read naturally for each unit (distance shares m/ft with length). */
+const DECIMALS: Record<string, number> = {
+  mm: 1,
+  m: 4,
+  in: 2,
+  ft: 3,
+  "L/s": 3,
+  "m³/s": 6,
+  "m³/h": 1,
+  CFM: 1,
+  "m/s": 3,
+  fpm: 0,
+  "Pa/m": 4,
+  "Pa/100 ft": 2,
+  "in.wg/100 ft": 4,
+  Pa: 3,
+  "in.wg": 4,
+  "°C": 1,
+  "°F": 1,
+  kPa: 3,
+  hPa: 1,
+  inHg: 2,
+  psi: 3,
+  "kg/m³": 4,
+  "lb/ft³": 5,
+  W: 0,
+  kW: 3,
+  "Btu/h": 0,
+  "g/kg": 2,
+  "gr/lb": 1,
+  "kJ/kg": 2,
+  "Btu/lb": 2,
+  "m³/kg": 4,
+  "ft³/lb": 3,
+  "kg/s": 4,
+  "kg/h": 1,
+  "lb/h": 1,
+  "µPa·s": 3,
+  "lb/(ft·h)": 5,
+};
+
+export function toSI<Q extends Quantity>(q: Q, value: number, unit: UnitPrefs[Q]) {
+  if (q === "temperature") return unit === "°F" ? ((value - 32) * 5) / 9 : value;
+  return value * (SCALE[q as Exclude<Quantity, "temperature">] as Record<string, number>)[unit];
+}
+
+export function fromSI<Q extends Quantity>(q: Q, value: number, unit: UnitPrefs[Q]) {
+  if (q === "temperature") return unit === "°F" ? (value * 9) / 5 + 32 : value;
+  return value / (SCALE[q as Exclude<Quantity, "temperature">] as Record<string, number>)[unit];
+}
+
+/** Re-express a value typed in one unit in another, trimmed for an input box. */
+export function convertUnit<Q extends Quantity>(q: Q, value: number, from: UnitPrefs[Q], to: UnitPrefs[Q]) {
+  if (from === to) return value;
+  return Number(fromSI(q, toSI(q, value, from), to).toPrecision(4));
+}
+
+/** convertUnit for a value still being typed; blank or unparsable text is left alone. */
+export function convertUnitText<Q extends Quantity>(q: Q, text: string, from: UnitPrefs[Q], to: UnitPrefs[Q]) {
+  const n = Number(text);
+  return text.trim() !== "" && Number.isFinite(n) ? String(convertUnit(q, n, from, to)) : text;
+}
+
+/** Kelvin per degree of a temperature difference (°F steps are 5/9 K; no offset). */
+export function temperatureDeltaScale(unit: TemperatureUnit) {
+  return unit === "°F" ? 5 / 9 : 1;
+}
+
+/** Format an SI value in the chosen display unit, e.g. "7.87 in". */
+export function formatQuantity<Q extends Quantity>(q: Q, si: unknown, unit: UnitPrefs[Q], decimals?: number) {
+  const v = Number(si);
+  if (si == null || !Number.isFinite(v)) return "—";
+  return `${fromSI(q, v, unit).toFixed(decimals ?? DECIMALS[unit] ?? 3)} ${unit}`;
+}
+
+export const mmToM = (mm: number) => mm / 1000;
+export const mToMm = (m: number) => m * 1000;
+export const lsToM3s = (ls: number) => ls * 0.001;
+export const m3hToM3s = (m3h: number) => m3h / 3600;
+export const safeNum = (v: unknown, fallback = 0) => {
+  const n = Number(v);
+  return Number.isFinite(n) ? n : fallback;
+};
+
+export function flowInputToM3s(val: number, unit: FlowUnit) {
+  return toSI("flow", safeNum(val, 0), unit);
+}